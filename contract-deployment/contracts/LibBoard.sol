@@ -65,19 +65,20 @@ library Board {
         pure
         returns (bool)
     {
-        return processMove(prevBoard, move, seed) == nextBoard;
+        (uint128 result,) = processMove(prevBoard, move, seed);
+        return result == nextBoard;
     }
 
     // =============================================================//
     //                        TRANSFORMATIONS                       //
     // =============================================================//
 
-    function processMove(uint128 board, uint8 move, uint256 seed) public pure returns (uint128 result) {
+    function processMove(uint128 board, uint8 move, uint256 seed) public pure returns (uint128 result, uint256 score) {
         // Check: the move is valid.
         require(move < 4, "MoveInvalid");
 
-        // Perform transformation on board to get resultant
-        result = processMove(board, move <= DOWN, move % 2 == 0);
+        // Perform transformation on board to get resultant and the score of its merges
+        (result, score) = processMove(board, move <= DOWN, move % 2 == 0);
 
         // Check: the move is playable.
         require(board != result, "MoveInvalid");
@@ -103,14 +104,19 @@ library Board {
         }
     }
 
-    function processMove(uint128 board, bool isVertical, bool isLeft) public pure returns (uint128 result) {
+    function processMove(uint128 board, bool isVertical, bool isLeft)
+        public
+        pure
+        returns (uint128 result, uint256 score)
+    {
         uint128 shift = 0;
         uint128 extractMask = isVertical ? 0x000000FF000000FF000000FF000000FF : 0xFFFFFFFF;
         for (uint256 i = 0; i < 4; i++) {
             uint128 compressed = compress(extractMask & board, isVertical, isLeft);
-            uint128 merged = merge(compressed, isVertical, isLeft);
+            (uint128 merged, uint256 mergeScore) = merge(compressed, isVertical, isLeft);
 
             result |= (merged << shift);
+            score += mergeScore;
             shift += isVertical ? 8 : 32;
 
             board >>= isVertical ? 8 : 32;
@@ -130,7 +136,11 @@ library Board {
         }
     }
 
-    function merge(uint128 compressed, bool isVertical, bool isLeft) internal pure returns (uint128 merged) {
+    function merge(uint128 compressed, bool isVertical, bool isLeft)
+        internal
+        pure
+        returns (uint128 merged, uint256 score)
+    {
         uint128 shift = isVertical ? 32 : 8;
 
         uint128 mask = isLeft ? (isVertical ? 0x000000FF000000000000000000000000 : 0xFF000000) : 0xFF;
@@ -143,6 +153,8 @@ library Board {
             if (compressed & mask == front) {
                 compressed = isLeft ? compressed << shift : compressed >> shift;
                 compressed += addition;
+                // Score the value of the merged tile.
+                score += 1 << ((compressed & mask) / addition);
             }
             merged |= (compressed & mask);
 
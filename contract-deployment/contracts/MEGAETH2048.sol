@@ -6,10 +6,17 @@ import {Board} from "./LibBoard.sol";
 
 struct GameState {
     uint8 move;
-    uint120 nextMove;
+    uint88 nextMove;
+    uint32 score;
     uint128 board;
 }
 
+struct Session {
+    address player;
+    uint64 expiry;
+    uint32 movesLeft;
+}
+
 /**
  * @title  MEGAETH 2048
  * @author Adapted from Monad Foundation 2048
@@ -28,6 +35,11 @@ contract MEGAETH2048 {
     error GameBoardInvalid();
     /// @dev Emitted when someone other than a game's player makes a move.
     error GamePlayerInvalid();
+    /// @dev Emitted when a session key is expired or out of moves.
+    error SessionInvalid();
+    /// @dev Emitted when a signed payload is malformed, expired or not signed
+    ///      with the player's current nonce.
+    error SignatureInvalid();
 
     // =============================================================//
     //                            EVENT                             //
@@ -36,9 +48,34 @@ contract MEGAETH2048 {
     /// @dev Emitted when a game is started.
     event NewGame(address indexed player, bytes32 indexed id, uint256 board);
     /// @dev Emitted when a new valid move is played.
-    event NewMove(address indexed player, bytes32 indexed id, uint256 move, uint256 result);
+    event NewMove(address indexed player, bytes32 indexed id, uint256 move, uint256 result, uint256 score);
     /// @dev Emitted when a move is confirmed in a block.
     event MoveConfirmed(address indexed player, bytes32 indexed id, uint256 move, uint256 blockNumber);
+    /// @dev Emitted when a player lets a session key play their games.
+    event SessionAuthorized(address indexed player, address indexed sessionKey, uint64 expiry, uint32 moveCap);
+    /// @dev Emitted when a session key is revoked.
+    event SessionRevoked(address indexed player, address indexed sessionKey);
+
+    // =============================================================//
+    //                          CONSTANTS                           //
+    // =============================================================//
+
+    /// @notice `movesLeft` of a session without a move cap.
+    uint32 public constant UNLIMITED_MOVES = type(uint32).max;
+
+    /// @notice EIP-712 type of a signed `startGame`.
+    bytes32 public constant START_GAME_TYPEHASH = keccak256(
+        "StartGame(bytes32 gameId,uint128[4] boards,uint8[3] moves,uint256 nonce,uint256 deadline)"
+    );
+    /// @notice EIP-712 type of a signed `play` or `playBatch`.
+    bytes32 public constant PLAY_TYPEHASH =
+        keccak256("Play(bytes32 gameId,uint8[] moves,uint128[] resultBoards,uint256 nonce,uint256 deadline)");
+
+    bytes32 private constant DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+
+    /// @dev Highest `s` of a signature in its canonical, lower-half form.
+    uint256 private constant MAX_SIGNATURE_S = 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0;
 
     // =============================================================//
     //                           STORAGE                            //
@@ -50,13 +87,27 @@ contract MEGAETH2048 {
     mapping(bytes32 gameHash => bytes32 gameId) public gameHashOf;
     /// @notice Tracks the confirmation status of moves (gameId => moveNumber => confirmed)
     mapping(bytes32 gameId => mapping(uint256 moveNumber => bool confirmed)) public moveConfirmed;
+    /// @notice Mapping from a session key to the player it plays for.
+    mapping(address sessionKey => Session session) public sessions;
+    /// @notice Nonce each player's next signed payload must carry.
+    mapping(address player => uint256 nonce) public nonces;
+
+    bytes32 private immutable cachedDomainSeparator;
+    uint256 private immutable cachedChainId;
+
+    constructor() {
+        cachedChainId = block.chainid;
+        cachedDomainSeparator = buildDomainSeparator();
+    }
 
     // =============================================================//
     //                          MODIFIERS                           //
     // =============================================================//
 
-    modifier correctGameId(address player, bytes32 gameId) {
-        require(player == address(uint160(uint256(gameId) >> 96)), "GamePlayerInvalid");
+    /// @dev Lets through a game's player, or a session key of theirs with
+    ///      `moves` moves left.
+    modifier correctGameId(bytes32 gameId, uint256 moves) {
+        authorize(msg.sender, playerOf(gameId), moves);
         _;
     }
 
@@ -72,6 +123,14 @@ contract MEGAETH2048 {
         return state[gameId].board;
     }
 
+    /**
+     * @notice Returns the score of a game: the sum of every merged tile's value.
+     * @param gameId The unique ID of a game.
+     */
+    function getScore(bytes32 gameId) external view returns (uint256) {
+        return state[gameId].score;
+    }
+
     /**
      * @notice Returns the latest board position of a game.
      * @dev Each array position stores the log_2 of that tile's value.
@@ -94,6 +153,11 @@ contract MEGAETH2048 {
         return moveConfirmed[gameId][moveNumber];
     }
 
+    /// @notice The EIP-712 domain separator of signed payloads.
+    function DOMAIN_SEPARATOR() public view returns (bytes32) {
+        return block.chainid == cachedChainId ? cachedDomainSeparator : buildDomainSeparator();
+    }
+
     // =============================================================//
     //                           EXTERNAL                           //
     // =============================================================//
@@ -107,8 +171,204 @@ contract MEGAETH2048 {
      */
     function startGame(bytes32 gameId, uint128[4] calldata boards, uint8[3] calldata moves)
         external
-        correctGameId(msg.sender, gameId)
+        correctGameId(gameId, 3)
+    {
+        newGame(gameId, boards, moves);
+    }
+
+    /**
+     * @notice Starts a new game for a player, as signed by them or one of
+     *         their session keys. Anyone can submit it and pay for the gas.
+     *
+     * @param gameId The unique ID of the game.
+     * @param boards An ordered series of a start board and the result boards
+     *               of the first three moves.
+     * @param deadline The timestamp after which the signature is void.
+     * @param signature The EIP-712 signature of a `StartGame` with the
+     *                  player's current nonce.
+     */
+    function startGameBySig(
+        bytes32 gameId,
+        uint128[4] calldata boards,
+        uint8[3] calldata moves,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        address player = playerOf(gameId);
+        bytes32 structHash = keccak256(
+            abi.encode(
+                START_GAME_TYPEHASH,
+                gameId,
+                keccak256(abi.encodePacked(boards)),
+                keccak256(abi.encodePacked(moves)),
+                nonces[player]++,
+                deadline
+            )
+        );
+        authorize(recoverSigner(structHash, deadline, signature), player, 3);
+
+        newGame(gameId, boards, moves);
+    }
+
+    /**
+     * @notice Makes a new move in a game.
+     * @param gameId The unique ID of the game.
+     * @param move The move to make (UP, DOWN, LEFT, RIGHT)
+     * @param resultBoard The result of applying a move on the latest board.
+     */
+    function play(bytes32 gameId, uint8 move, uint128 resultBoard) external correctGameId(gameId, 1) {
+        state[gameId] = applyMove(gameId, state[gameId], move, resultBoard);
+    }
+
+    /**
+     * @notice Makes a series of moves in a game in one transaction.
+     * @param gameId The unique ID of the game.
+     * @param moves The moves to make, in order (UP, DOWN, LEFT, RIGHT)
+     * @param resultBoards The result of applying each move on the board before it.
+     */
+    function playBatch(bytes32 gameId, uint8[] calldata moves, uint128[] calldata resultBoards)
+        external
+        correctGameId(gameId, moves.length)
     {
+        playMoves(gameId, moves, resultBoards);
+    }
+
+    /**
+     * @notice Makes one or more moves in a game, as signed by its player or
+     *         one of their session keys. Anyone can submit it and pay for the gas.
+     * @param gameId The unique ID of the game.
+     * @param moves The moves to make, in order (UP, DOWN, LEFT, RIGHT)
+     * @param resultBoards The result of applying each move on the board before it.
+     * @param deadline The timestamp after which the signature is void.
+     * @param signature The EIP-712 signature of a `Play` with the player's
+     *                  current nonce.
+     */
+    function playBySig(
+        bytes32 gameId,
+        uint8[] calldata moves,
+        uint128[] calldata resultBoards,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        address player = playerOf(gameId);
+        bytes32 structHash = keccak256(
+            abi.encode(
+                PLAY_TYPEHASH,
+                gameId,
+                keccak256(abi.encodePacked(moves)),
+                keccak256(abi.encodePacked(resultBoards)),
+                nonces[player]++,
+                deadline
+            )
+        );
+        authorize(recoverSigner(structHash, deadline, signature), player, moves.length);
+
+        playMoves(gameId, moves, resultBoards);
+    }
+
+    /**
+     * @notice Lets a session key play the sender's games until `expiry`, and
+     *         forwards any value sent to it to pay for gas.
+     * @param sessionKey The address of the session key.
+     * @param expiry The timestamp after which the key can no longer play.
+     * @param moveCap The number of moves the key may play, or 0 for no cap.
+     */
+    function authorizeSession(address sessionKey, uint64 expiry, uint32 moveCap) external payable {
+        require(expiry > block.timestamp, "SessionInvalid");
+
+        // Check: the key does not play for someone else.
+        address player = sessions[sessionKey].player;
+        require(player == address(0) || player == msg.sender, "GamePlayerInvalid");
+
+        uint32 movesLeft = moveCap == 0 ? UNLIMITED_MOVES : moveCap;
+        sessions[sessionKey] = Session({player: msg.sender, expiry: expiry, movesLeft: movesLeft});
+
+        emit SessionAuthorized(msg.sender, sessionKey, expiry, moveCap);
+
+        if (msg.value > 0) {
+            (bool sent,) = sessionKey.call{value: msg.value}("");
+            require(sent, "SessionInvalid");
+        }
+    }
+
+    /**
+     * @notice Revokes a session key. Callable by its player or the key itself.
+     * @param sessionKey The address of the session key.
+     */
+    function revokeSession(address sessionKey) external {
+        address player = sessions[sessionKey].player;
+        require(player != address(0) && (msg.sender == player || msg.sender == sessionKey), "GamePlayerInvalid");
+
+        delete sessions[sessionKey];
+
+        emit SessionRevoked(player, sessionKey);
+    }
+
+    /**
+     * @notice Calculate the seed for a specific move
+     * @param gameId The unique ID of the game
+     * @param moveNumber The move number
+     */
+    function calculateSeed(bytes32 gameId, uint256 moveNumber) external pure returns (uint256) {
+        return uint256(keccak256(abi.encodePacked(gameId, moveNumber)));
+    }
+
+    // =============================================================//
+    //                           INTERNAL                           //
+    // =============================================================//
+
+    /// @dev The player of a game is the address in the top 160 bits of its ID.
+    function playerOf(bytes32 gameId) internal pure returns (address) {
+        return address(uint160(uint256(gameId) >> 96));
+    }
+
+    /// @dev Lets `signer` act for `player` if it is the player, or a session
+    ///      key of theirs with `moves` moves left, which are spent.
+    function authorize(address signer, address player, uint256 moves) internal {
+        if (signer != player) {
+            useSession(signer, player, moves);
+        }
+    }
+
+    /// @dev Spends `moves` moves of a session key's session for `player`.
+    function useSession(address sessionKey, address player, uint256 moves) internal {
+        Session storage session = sessions[sessionKey];
+        require(session.player == player, "GamePlayerInvalid");
+        require(block.timestamp <= session.expiry, "SessionInvalid");
+
+        if (session.movesLeft != UNLIMITED_MOVES) {
+            require(session.movesLeft >= moves, "SessionInvalid");
+            session.movesLeft -= uint32(moves);
+        }
+    }
+
+    function buildDomainSeparator() internal view returns (bytes32) {
+        return keccak256(
+            abi.encode(DOMAIN_TYPEHASH, keccak256("MEGAETH2048"), keccak256("1"), block.chainid, address(this))
+        );
+    }
+
+    /// @dev Recovers the signer of an EIP-712 payload that is valid until `deadline`.
+    function recoverSigner(bytes32 structHash, uint256 deadline, bytes calldata signature)
+        internal
+        view
+        returns (address signer)
+    {
+        require(block.timestamp <= deadline, "SignatureInvalid");
+        require(signature.length == 65, "SignatureInvalid");
+
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+        require(uint256(s) <= MAX_SIGNATURE_S, "SignatureInvalid");
+
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", DOMAIN_SEPARATOR(), structHash));
+        signer = ecrecover(digest, v, r, s);
+        require(signer != address(0), "SignatureInvalid");
+    }
+
+    /// @dev Starts a game once its player has been authorized.
+    function newGame(bytes32 gameId, uint128[4] calldata boards, uint8[3] calldata moves) internal {
         require(state[gameId].board == 0, "GameIdUsed");
 
         // Check: this exact sequence of boards has not been played.
@@ -119,13 +379,12 @@ contract MEGAETH2048 {
         require(Board.validateStartPosition(boards[0]), "GameBoardInvalid");
 
         // Check: game has valid board transformations.
+        uint256 score;
         for (uint256 i = 1; i < 4; i++) {
-            require(
-                Board.validateTransformation(
-                    boards[i - 1], moves[i - 1], boards[i], uint256(keccak256(abi.encodePacked(gameId, i)))
-                ),
-                "GameBoardInvalid"
-            );
+            (uint128 result, uint256 moveScore) =
+                Board.processMove(boards[i - 1], moves[i - 1], uint256(keccak256(abi.encodePacked(gameId, i))));
+            require(result == boards[i], "GameBoardInvalid");
+            score += moveScore;
         }
 
         // Mark the game-start as played.
@@ -136,49 +395,48 @@ contract MEGAETH2048 {
             moveConfirmed[gameId][i] = true;
         }
 
-        state[gameId] = GameState({move: moves[2], nextMove: uint120(4), board: boards[3]});
+        state[gameId] = GameState({move: moves[2], nextMove: uint88(4), score: uint32(score), board: boards[3]});
 
-        emit NewGame(msg.sender, gameId, boards[3]);
-        emit MoveConfirmed(msg.sender, gameId, 3, block.number);
+        emit NewGame(playerOf(gameId), gameId, boards[3]);
+        emit MoveConfirmed(playerOf(gameId), gameId, 3, block.number);
     }
 
-    /**
-     * @notice Makes a new move in a game.
-     * @param gameId The unique ID of the game.
-     * @param move The move to make (UP, DOWN, LEFT, RIGHT)
-     * @param resultBoard The result of applying a move on the latest board.
-     */
-    function play(bytes32 gameId, uint8 move, uint128 resultBoard) external correctGameId(msg.sender, gameId) {
+    /// @dev Plays a series of moves once their player has been authorized.
+    function playMoves(bytes32 gameId, uint8[] calldata moves, uint128[] calldata resultBoards) internal {
+        require(moves.length > 0 && moves.length == resultBoards.length, "GameBoardInvalid");
+
+        // Apply every move to the in-memory state and store it once.
         GameState memory latestState = state[gameId];
+        for (uint256 i = 0; i < moves.length; i++) {
+            latestState = applyMove(gameId, latestState, moves[i], resultBoards[i]);
+        }
+        state[gameId] = latestState;
+    }
 
+    /**
+     * @dev Validates a move against the latest state of a game and returns the
+     *      updated state. Callers are responsible for storing it.
+     */
+    function applyMove(bytes32 gameId, GameState memory latestState, uint8 move, uint128 resultBoard)
+        internal
+        returns (GameState memory)
+    {
         // Check: playing a valid move.
-        require(
-            Board.validateTransformation(
-                latestState.board,
-                move,
-                resultBoard,
-                uint256(keccak256(abi.encodePacked(gameId, uint256(latestState.nextMove))))
-            ),
-            "GameBoardInvalid"
+        (uint128 result, uint256 moveScore) = Board.processMove(
+            latestState.board, move, uint256(keccak256(abi.encodePacked(gameId, uint256(latestState.nextMove))))
         );
+        require(result == resultBoard, "GameBoardInvalid");
 
-        // Update board.
+        // Update board and score.
         uint256 currentMoveNumber = latestState.nextMove;
-        state[gameId] = GameState({move: move, nextMove: latestState.nextMove + 1, board: resultBoard});
-        
+        uint32 score = latestState.score + uint32(moveScore);
+
         // Mark the move as confirmed
         moveConfirmed[gameId][currentMoveNumber] = true;
 
-        emit NewMove(msg.sender, gameId, move, resultBoard);
-        emit MoveConfirmed(msg.sender, gameId, currentMoveNumber, block.number);
-    }
+        emit NewMove(playerOf(gameId), gameId, move, resultBoard, score);
+        emit MoveConfirmed(playerOf(gameId), gameId, currentMoveNumber, block.number);
 
-    /**
-     * @notice Calculate the seed for a specific move
-     * @param gameId The unique ID of the game
-     * @param moveNumber The move number
-     */
-    function calculateSeed(bytes32 gameId, uint256 moveNumber) external pure returns (uint256) {
-        return uint256(keccak256(abi.encodePacked(gameId, moveNumber)));
+        return GameState({move: move, nextMove: latestState.nextMove + 1, score: score, board: resultBoard});
     }
 }
\ No newline at end of file
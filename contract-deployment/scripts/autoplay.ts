@@ -0,0 +1,247 @@
+// scripts/autoplay.ts
+//
+// Plays complete games against freshly deployed contracts on the in-process
+// hardhat network and reports scores, gas and reverts:
+//
+//   GAMES=10 STRATEGY=corner npx hardhat run scripts/autoplay.ts
+//
+// GAMES      number of games to play (default 5)
+// STRATEGY   random | greedy | corner (default greedy)
+// MAX_MOVES  stop a game after this many moves (default 2000)
+// BATCH      submit moves after the opening through playBatch in runs of
+//            this size instead of one play() each (default 1)
+import { ethers, network } from "hardhat";
+import { ContractTransactionResponse } from "ethers";
+import * as engine from "../../src/utils/engine";
+
+const GAMES = Number(process.env.GAMES || 5);
+const STRATEGY = process.env.STRATEGY || "greedy";
+const MAX_MOVES = Number(process.env.MAX_MOVES || 2000);
+const BATCH = Number(process.env.BATCH || 1);
+
+type Hex = `0x${string}`;
+
+// =============================================================//
+//                          STRATEGIES                          //
+// =============================================================//
+
+type StrategyContext = {
+  gameId: Hex;
+  moveNumber: number;
+};
+
+/**
+ * Chooses the next move for a board, or null when the game is over. Add a
+ * strategy here to make it selectable through STRATEGY.
+ */
+type Strategy = (board: bigint, context: StrategyContext) => engine.Direction | null;
+
+const DIRECTIONS = [engine.Direction.UP, engine.Direction.DOWN, engine.Direction.LEFT, engine.Direction.RIGHT];
+
+function playableMoves(board: bigint): engine.Direction[] {
+  return DIRECTIONS.filter((move) => engine.canMove(board, move));
+}
+
+const strategies: Record<string, Strategy> = {
+  random: (board) => {
+    const moves = playableMoves(board);
+    return moves.length > 0 ? moves[Math.floor(Math.random() * moves.length)] : null;
+  },
+  // Takes the move with the highest immediate merge score.
+  greedy: (board) => {
+    let best: engine.Direction | null = null;
+    let bestScore = -1;
+    for (const move of playableMoves(board)) {
+      const { score } = engine.slide(board, move);
+      if (score > bestScore) {
+        best = move;
+        bestScore = score;
+      }
+    }
+    return best;
+  },
+  // Keeps the largest tiles in the bottom-left corner.
+  corner: (board) => {
+    const preferred = [engine.Direction.DOWN, engine.Direction.LEFT, engine.Direction.RIGHT, engine.Direction.UP];
+    return preferred.find((move) => engine.canMove(board, move)) ?? null;
+  },
+};
+
+// =============================================================//
+//                           REPORTING                          //
+// =============================================================//
+
+type GameResult = {
+  gameId: Hex;
+  moves: number;
+  score: number;
+  maxTile: number;
+  revert?: string;
+};
+
+const gasUsed: Record<string, bigint[]> = { startGame: [], play: [], playBatch: [] };
+
+async function recordGas(call: string, tx: ContractTransactionResponse) {
+  const receipt = await tx.wait();
+  gasUsed[call].push(receipt!.gasUsed);
+}
+
+function revertReason(error: unknown): string {
+  const data = (error as { data?: string }).data;
+  if (data?.startsWith("0x08c379a0")) {
+    const [reason] = ethers.AbiCoder.defaultAbiCoder().decode(["string"], `0x${data.slice(10)}`);
+    return reason;
+  }
+  return (error as Error).message;
+}
+
+function randomGameId(player: string): Hex {
+  return ethers.concat([player, ethers.randomBytes(12)]) as Hex;
+}
+
+// =============================================================//
+//                             GAME                             //
+// =============================================================//
+
+async function main() {
+  if (network.name !== "hardhat") {
+    throw new Error("Autoplay deploys fresh contracts and must run on the in-process hardhat network.");
+  }
+
+  const strategy = strategies[STRATEGY];
+  if (!strategy) {
+    throw new Error(`Unknown strategy "${STRATEGY}". Use one of: ${Object.keys(strategies).join(", ")}`);
+  }
+
+  const Board = await ethers.getContractFactory("Board");
+  const board = await Board.deploy();
+  await board.waitForDeployment();
+
+  const MEGAETH2048 = await ethers.getContractFactory("MEGAETH2048", {
+    libraries: {
+      Board: await board.getAddress(),
+    },
+  });
+  const game = await MEGAETH2048.deploy();
+  await game.waitForDeployment();
+
+  const signers = await ethers.getSigners();
+  console.log(
+    `Playing ${GAMES} game(s) with the "${STRATEGY}" strategy` + (BATCH > 1 ? ` in batches of ${BATCH}` : "") + "...\n"
+  );
+
+  const results: GameResult[] = [];
+  for (let i = 0; i < GAMES; i++) {
+    const player = signers[i % signers.length];
+    const gameId = randomGameId(player.address);
+    const result: GameResult = { gameId, moves: 0, score: 0, maxTile: 0 };
+
+    // The contract accepts any valid start; use the one the frontend derives.
+    const boards = [engine.getStartPosition(gameId)];
+    const moves: number[] = [];
+    let current = boards[0];
+
+    // Moves after the opening waiting to be sent through playBatch.
+    let batchMoves: number[] = [];
+    let batchBoards: bigint[] = [];
+    const sendBatch = async () => {
+      if (batchMoves.length === 0) return;
+      const tx = await game.connect(player).playBatch(gameId, batchMoves, batchBoards);
+      await recordGas("playBatch", tx);
+      batchMoves = [];
+      batchBoards = [];
+    };
+
+    try {
+      while (result.moves < MAX_MOVES) {
+        const move = strategy(current, { gameId, moveNumber: result.moves + 1 });
+        if (move === null) break;
+
+        result.score += engine.slide(current, move).score;
+        current = engine.processMove(current, move, engine.moveSeed(gameId, result.moves + 1));
+        result.moves++;
+
+        if (result.moves <= 3) {
+          boards.push(current);
+          moves.push(move);
+          if (result.moves === 3) {
+            const tx = await game
+              .connect(player)
+              .startGame(gameId, boards as [bigint, bigint, bigint, bigint], moves as [number, number, number]);
+            await recordGas("startGame", tx);
+          }
+        } else if (BATCH > 1) {
+          batchMoves.push(move);
+          batchBoards.push(current);
+          if (batchMoves.length === BATCH) await sendBatch();
+        } else {
+          const tx = await game.connect(player).play(gameId, move, current);
+          await recordGas("play", tx);
+        }
+      }
+      await sendBatch();
+
+      // The contract must agree with the locally played board and score.
+      const latest = await game.latestBoard(gameId);
+      if (result.moves >= 3 && latest !== current) {
+        result.revert = `Board mismatch: contract has 0x${latest.toString(16)}`;
+      }
+      const score = await game.getScore(gameId);
+      if (result.moves >= 3 && score !== BigInt(result.score)) {
+        result.revert = `Score mismatch: contract has ${score}`;
+      }
+    } catch (error) {
+      result.revert = revertReason(error);
+    }
+
+    result.maxTile = engine.maxTile(current);
+    results.push(result);
+
+    console.log(
+      `Game ${i + 1}: ${result.moves} moves, score ${result.score}, max tile ${result.maxTile}` +
+        (result.revert ? `, REVERTED: ${result.revert}` : "")
+    );
+  }
+
+  const reverted = results.filter((r) => r.revert);
+  const averageScore = results.reduce((sum, r) => sum + r.score, 0) / Math.max(results.length, 1);
+
+  console.log("\n=== Autoplay Summary ===");
+  console.log(`Games played: ${results.length}`);
+  console.log(`Average score: ${averageScore.toFixed(1)}`);
+  console.log(`Max tile: ${Math.max(0, ...results.map((r) => r.maxTile))}`);
+  console.log(`Reverts: ${reverted.length}`);
+  reverted.forEach((r) => console.log(`  ${r.gameId}: ${r.revert}`));
+
+  console.log("\nGas used per call:");
+  console.table(
+    Object.fromEntries(
+      Object.entries(gasUsed)
+        .filter(([, used]) => used.length > 0)
+        .map(([call, used]) => {
+          const total = used.reduce((sum, gas) => sum + gas, 0n);
+          return [
+            call,
+            {
+              calls: used.length,
+              min: Number(used.reduce((a, b) => (b < a ? b : a))),
+              max: Number(used.reduce((a, b) => (b > a ? b : a))),
+              average: Number(total / BigInt(used.length)),
+            },
+          ];
+        })
+    )
+  );
+  console.log("========================\n");
+
+  if (reverted.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -1,43 +1,134 @@
-import { ethers } from "hardhat";
+// scripts/deploy.ts
+//
+// Deploys the Board library and MEGAETH2048 and records them in
+// deployments.json under the chain's id, where the frontend reads its
+// addresses from:
+//
+//   npx hardhat run scripts/deploy.ts --network megaeth
+//
+// A contract recorded with the same bytecode and compiler settings, and
+// still on chain, is kept; MEGAETH2048 is redeployed whenever Board is.
+// REDEPLOY=1 redeploys both.
+import { artifacts, ethers, network } from "hardhat";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import {
+  CompilerSettings,
+  ContractDeployment,
+  DeploymentManifest,
+  MANIFEST_VERSION,
+} from "../../src/utils/deployments";
+
+const MANIFEST = path.join(__dirname, "../deployments.json");
+const REDEPLOY = process.env.REDEPLOY === "1";
+
+type Hex = `0x${string}`;
+
+type ContractName = "Board" | "MEGAETH2048";
+
+// What a deployment of the compiled contract would be recorded with.
+type Compiled = Pick<ContractDeployment, "bytecodeHash" | "abiHash"> & {
+  compiler: CompilerSettings;
+};
+
+function readManifest(): DeploymentManifest {
+  if (!existsSync(MANIFEST)) {
+    return { version: MANIFEST_VERSION, chains: {} };
+  }
+  const manifest = JSON.parse(readFileSync(MANIFEST, "utf8"));
+  if (manifest.version !== MANIFEST_VERSION) {
+    throw new Error(`Unsupported manifest version ${manifest.version}, expected ${MANIFEST_VERSION}.`);
+  }
+  return manifest;
+}
+
+async function compiled(name: ContractName): Promise<Compiled> {
+  const artifact = await artifacts.readArtifact(name);
+  const buildInfo = await artifacts.getBuildInfo(`${artifact.sourceName}:${name}`);
+  if (!buildInfo) {
+    throw new Error(`No build info for ${name}, compile first.`);
+  }
+
+  // Unlinked bytecode holds library placeholders, so it is hashed as text.
+  const { optimizer, evmVersion, viaIR } = buildInfo.input.settings;
+  return {
+    bytecodeHash: ethers.id(artifact.bytecode) as Hex,
+    abiHash: ethers.id(JSON.stringify(artifact.abi)) as Hex,
+    compiler: { version: buildInfo.solcLongVersion, optimizer, evmVersion, viaIR },
+  };
+}
+
+// Whether a recorded deployment is of the compiled contract and still on chain.
+async function isCurrent(recorded: ContractDeployment | undefined, build: Compiled): Promise<boolean> {
+  return (
+    !REDEPLOY &&
+    recorded !== undefined &&
+    recorded.bytecodeHash === build.bytecodeHash &&
+    JSON.stringify(recorded.compiler) === JSON.stringify(build.compiler) &&
+    (await ethers.provider.getCode(recorded.address)) !== "0x"
+  );
+}
+
+async function deploy(
+  name: ContractName,
+  build: Compiled,
+  libraries?: Record<string, Hex>
+): Promise<ContractDeployment> {
+  console.log(`Deploying ${name}...`);
+  const factory = await ethers.getContractFactory(name, { libraries });
+  const contract = await factory.deploy();
+  const receipt = await contract.deploymentTransaction()!.wait();
+  if (!receipt) {
+    throw new Error(`${name} deployment was not mined.`);
+  }
+
+  const address = (await contract.getAddress()) as Hex;
+  console.log(`${name} deployed to: ${address}`);
+  return {
+    address,
+    transactionHash: receipt.hash as Hex,
+    blockNumber: receipt.blockNumber,
+    ...build,
+    ...(libraries && { libraries }),
+  };
+}
 
 async function main() {
-  console.log("Deploying MEGAETH 2048 contract...");
-
- 
-  const Board = await ethers.getContractFactory("Board");
-  const board = await Board.deploy();
-  
-  await board.waitForDeployment();
-  
-  const boardAddress = await board.getAddress();
-  console.log(`Board library deployed to: ${boardAddress}`);
-
-  
-  const MEGAETH2048 = await ethers.getContractFactory("MEGAETH2048", {
-    libraries: {
-      Board: boardAddress,
-    },
-  });
-  
-  const game = await MEGAETH2048.deploy();
-  await game.waitForDeployment();
-  
-  const gameAddress = await game.getAddress();
-  console.log(`MEGAETH2048 deployed to: ${gameAddress}`);
-
-  
-  console.log("Waiting for deployment confirmation...");
-  await new Promise(resolve => setTimeout(resolve, 10000)); 
-  
-  console.log("Deployment confirmed!");
+  const { chainId } = await ethers.provider.getNetwork();
+  const manifest = readManifest();
+  const recorded = manifest.chains[chainId.toString()]?.contracts;
+
+  const boardBuild = await compiled("Board");
+  const board = (await isCurrent(recorded?.Board, boardBuild))
+    ? recorded!.Board
+    : await deploy("Board", boardBuild);
 
+  const gameBuild = await compiled("MEGAETH2048");
+  const game =
+    recorded?.MEGAETH2048.libraries?.Board === board.address && (await isCurrent(recorded.MEGAETH2048, gameBuild))
+      ? recorded.MEGAETH2048
+      : await deploy("MEGAETH2048", gameBuild, { Board: board.address });
+
+  const unchanged = (deployment: ContractDeployment) =>
+    deployment === recorded?.Board || deployment === recorded?.MEGAETH2048 ? " (unchanged)" : "";
   console.log("\n=== Deployment Summary ===");
-  console.log(`Board Library: ${boardAddress}`);
-  console.log(`MEGAETH2048 Game: ${gameAddress}`);
+  console.log(`Chain:            ${chainId} (${network.name})`);
+  console.log(`Board Library:    ${board.address}${unchanged(board)}`);
+  console.log(`MEGAETH2048 Game: ${game.address}${unchanged(game)}`);
   console.log("=========================\n");
 
-  console.log("Don't forget to update the contract address in constants.ts:");
-  console.log(`export const MEGAETH_GAME_CONTRACT_ADDRESS = "${gameAddress}";`);
+  // The in-process network is gone once this script ends.
+  if (network.name === "hardhat") {
+    console.log("Not recorded: deployments to the in-process hardhat network do not outlive the script.");
+    return;
+  }
+
+  manifest.chains[chainId.toString()] = {
+    network: network.name,
+    contracts: { Board: board, MEGAETH2048: game },
+  };
+  writeFileSync(MANIFEST, JSON.stringify(manifest, null, 2) + "\n");
+  console.log(`Recorded in ${path.relative(process.cwd(), MANIFEST)}; the frontend reads its addresses from there.`);
 }
 
 main()
@@ -46,4 +137,3 @@ main()
     console.error(error);
     process.exit(1);
   });
-  
\ No newline at end of file
@@ -0,0 +1,41 @@
+// scripts/generate-abi.ts
+//
+// Writes the ABIs of the compiled contracts to the frontend as `as const`
+// viem ABIs, so that any drift between the contracts and the UI fails the
+// frontend's type-check:
+//
+//   npx hardhat run scripts/generate-abi.ts
+//
+// Run it after every contract change; the output is committed.
+import { artifacts } from "hardhat";
+import { writeFileSync } from "fs";
+import path from "path";
+
+const OUTPUT = path.join(__dirname, "../../src/utils/abi.ts");
+
+async function main() {
+  const game = await artifacts.readArtifact("MEGAETH2048");
+  const board = await artifacts.readArtifact("Board");
+
+  const source = [
+    "// Generated by contract-deployment/scripts/generate-abi.ts. Do not edit.",
+    "",
+    `export const MEGAETH2048_ABI = ${JSON.stringify(game.abi, null, 4)} as const;`,
+    "",
+    `export const BOARD_ABI = ${JSON.stringify(board.abi, null, 4)} as const;`,
+    "",
+    "// Runtime code of the Board library, for deployless calls to its pure functions.",
+    `export const BOARD_DEPLOYED_BYTECODE = "${board.deployedBytecode}";`,
+    "",
+  ].join("\n");
+
+  writeFileSync(OUTPUT, source);
+  console.log(`Wrote ${game.abi.length + board.abi.length} ABI entries to ${path.relative(process.cwd(), OUTPUT)}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,307 @@
+// scripts/relayer.ts
+//
+// Submits EIP-712 signed startGame / play payloads for players and pays for
+// their gas, so the frontend can offer sponsored play without a balance:
+//
+//   npx hardhat node
+//   npx hardhat run scripts/relayer.ts --network localhost
+//
+// GAME_CONTRACT_ADDRESS  game to relay to (default: deploy a fresh one)
+// RELAYER_PORT           port to listen on (default 8787)
+// RELAYER_QUOTA          moves a player may relay per window (default 500)
+// RELAYER_QUOTA_WINDOW   length of the quota window in seconds (default 86400)
+//
+// GET  /players/:address  the player's next nonce and remaining quota
+// POST /relay             a signed payload (src/utils/typedData.ts), returns
+//                         the hash of the transaction relaying it
+import { ethers } from "hardhat";
+import { createServer, IncomingMessage, ServerResponse } from "http";
+import { NonceManager } from "ethers";
+import { MEGAETH2048 } from "../typechain-types";
+import { GAME_TYPES, RelayerPlayer, RelayRequest, gameDomain } from "../../src/utils/typedData";
+
+const PORT = Number(process.env.RELAYER_PORT || 8787);
+const QUOTA = Number(process.env.RELAYER_QUOTA || 500);
+const QUOTA_WINDOW = Number(process.env.RELAYER_QUOTA_WINDOW || 24 * 60 * 60) * 1000;
+
+// Fixed gas limits, as later payloads of a player cannot be estimated while
+// earlier ones are pending.
+const START_GAME_GAS = 300_000n;
+const PLAY_BASE_GAS = 60_000n;
+const PLAY_MOVE_GAS = 60_000n;
+
+// Moves a single play payload may carry, which bounds its gas limit.
+const MAX_PLAY_MOVES = 64;
+
+const UINT256_MAX = 2n ** 256n - 1n;
+
+type Hex = `0x${string}`;
+
+class RelayError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+// =============================================================//
+//                        PLAYER STATE                          //
+// =============================================================//
+
+type PlayerState = {
+  nonce: bigint; // of the player's next payload, counting those not yet mined
+  used: number; // moves relayed in the current window
+  windowStart: number;
+};
+
+const players = new Map<string, PlayerState>();
+
+// Moves relayed for each capped session key that are not mined yet, which
+// its on-chain `movesLeft` does not count.
+const pendingSessionMoves = new Map<string, number>();
+
+// Mirrors MEGAETH2048.UNLIMITED_MOVES.
+const UNLIMITED_MOVES = 2n ** 32n - 1n;
+
+async function playerState(game: MEGAETH2048, player: string): Promise<PlayerState> {
+  const key = player.toLowerCase();
+  let state = players.get(key);
+  if (!state) {
+    state = { nonce: await game.nonces(player), used: 0, windowStart: Date.now() };
+    players.set(key, state);
+  }
+  if (Date.now() - state.windowStart >= QUOTA_WINDOW) {
+    state.used = 0;
+    state.windowStart = Date.now();
+  }
+  return state;
+}
+
+// =============================================================//
+//                           RELAYING                           //
+// =============================================================//
+
+// A uint256 as the frontend sends it, in decimal or 0x-prefixed hex.
+function isUint256(value: unknown): value is string {
+  return typeof value === "string" && /^(0x[0-9a-fA-F]{1,64}|[0-9]{1,78})$/.test(value) && BigInt(value) <= UINT256_MAX;
+}
+
+function isDirection(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 3;
+}
+
+// Checks every field before any of them is relied on, so a malformed
+// payload is a 400 rather than whatever parsing it would throw.
+function parseRequest(body: unknown): RelayRequest {
+  const request = body as RelayRequest;
+  const valid =
+    typeof request === "object" &&
+    request !== null &&
+    ethers.isHexString(request.gameId, 32) &&
+    ethers.isHexString(request.signature, 65) &&
+    isUint256(request.nonce) &&
+    isUint256(request.deadline) &&
+    Array.isArray(request.moves) &&
+    request.moves.every(isDirection) &&
+    (request.kind === "startGame"
+      ? Array.isArray(request.boards) &&
+        request.boards.length === 4 &&
+        request.boards.every(isUint256) &&
+        request.moves.length === 3
+      : request.kind === "play" &&
+        Array.isArray(request.resultBoards) &&
+        request.resultBoards.every(isUint256) &&
+        request.moves.length > 0 &&
+        request.moves.length <= MAX_PLAY_MOVES &&
+        request.moves.length === request.resultBoards.length);
+  if (!valid) {
+    throw new RelayError(400, "Malformed payload.");
+  }
+  return request;
+}
+
+// The address that signed a payload, which may be a session key of the player.
+function recoverSigner(domain: ReturnType<typeof gameDomain>, request: RelayRequest): string {
+  const { nonce, deadline, signature } = request;
+  try {
+    return request.kind === "startGame"
+      ? ethers.verifyTypedData(
+          domain,
+          { StartGame: [...GAME_TYPES.StartGame] },
+          { gameId: request.gameId, boards: request.boards, moves: request.moves, nonce, deadline },
+          signature
+        )
+      : ethers.verifyTypedData(
+          domain,
+          { Play: [...GAME_TYPES.Play] },
+          { gameId: request.gameId, moves: request.moves, resultBoards: request.resultBoards, nonce, deadline },
+          signature
+        );
+  } catch {
+    throw new RelayError(400, "SignatureInvalid");
+  }
+}
+
+async function relay(game: MEGAETH2048, domain: ReturnType<typeof gameDomain>, request: RelayRequest): Promise<Hex> {
+  const player = ethers.getAddress(ethers.dataSlice(request.gameId, 0, 20));
+  const state = await playerState(game, player);
+
+  if (BigInt(request.deadline) * 1000n <= BigInt(Date.now())) {
+    throw new RelayError(400, "SignatureInvalid: deadline passed.");
+  }
+  if (BigInt(request.nonce) !== state.nonce) {
+    throw new RelayError(409, `SignatureInvalid: expected nonce ${state.nonce}.`);
+  }
+
+  // Only the player or one of their live session keys with moves to spare,
+  // so forged or capped-out payloads never cost gas.
+  const moves = request.moves.length;
+  const signer = recoverSigner(domain, request);
+  const sessionKey = signer !== player ? signer.toLowerCase() : null;
+  if (sessionKey) {
+    const session = await game.sessions(signer);
+    if (session.player !== player || session.expiry * 1000n <= BigInt(Date.now())) {
+      throw new RelayError(403, "GamePlayerInvalid");
+    }
+    const pending = pendingSessionMoves.get(sessionKey) ?? 0;
+    if (session.movesLeft !== UNLIMITED_MOVES && session.movesLeft < BigInt(pending + moves)) {
+      throw new RelayError(403, "SessionInvalid: not enough moves left.");
+    }
+  }
+
+  if (state.used + moves > QUOTA) {
+    throw new RelayError(429, `Quota of ${QUOTA} moves used up.`);
+  }
+
+  const { deadline, signature } = request;
+  const tx =
+    request.kind === "startGame"
+      ? await game.startGameBySig(
+          request.gameId,
+          request.boards as [string, string, string, string],
+          request.moves as [number, number, number],
+          deadline,
+          signature,
+          { gasLimit: START_GAME_GAS }
+        )
+      : await game.playBySig(request.gameId, request.moves, request.resultBoards, deadline, signature, {
+          gasLimit: PLAY_BASE_GAS + PLAY_MOVE_GAS * BigInt(moves),
+        });
+
+  state.nonce++;
+  state.used += moves;
+  if (sessionKey) {
+    pendingSessionMoves.set(sessionKey, (pendingSessionMoves.get(sessionKey) ?? 0) + moves);
+  }
+  console.log(`Relayed ${request.kind} of ${moves} moves for ${player}: ${tx.hash}`);
+
+  // A reverted payload leaves the nonce unused, so it is read back, and its
+  // moves do not count against the quota.
+  tx.wait()
+    .catch(async (error) => {
+      console.warn(`Relayed transaction ${tx.hash} failed:`, error.shortMessage ?? error.message);
+      state.used = Math.max(0, state.used - moves);
+      state.nonce = await game.nonces(player);
+    })
+    .catch((error) => console.warn(`Failed to read back the nonce of ${player}:`, error))
+    .finally(() => {
+      if (sessionKey) {
+        pendingSessionMoves.set(sessionKey, pendingSessionMoves.get(sessionKey)! - moves);
+      }
+    });
+
+  return tx.hash as Hex;
+}
+
+// =============================================================//
+//                            SERVER                            //
+// =============================================================//
+
+function respond(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Content-Type",
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+async function readBody(req: IncomingMessage): Promise<unknown> {
+  let body = "";
+  for await (const chunk of req) {
+    body += chunk;
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new RelayError(400, "Malformed payload.");
+  }
+}
+
+async function deployGame(): Promise<string> {
+  const Board = await ethers.getContractFactory("Board");
+  const board = await Board.deploy();
+  const MEGAETH2048 = await ethers.getContractFactory("MEGAETH2048", {
+    libraries: { Board: await board.getAddress() },
+  });
+  const game = await MEGAETH2048.deploy();
+  await game.waitForDeployment();
+  return game.getAddress();
+}
+
+async function main() {
+  const [signer] = await ethers.getSigners();
+  const address = process.env.GAME_CONTRACT_ADDRESS || (await deployGame());
+  const game = (await ethers.getContractAt("MEGAETH2048", address)).connect(new NonceManager(signer)) as MEGAETH2048;
+  const { chainId } = await ethers.provider.getNetwork();
+  const domain = gameDomain(Number(chainId), address as Hex);
+
+  // Payloads are handled one at a time, so nonces are checked and sent in order.
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const server = createServer(async (req, res) => {
+    try {
+      if (req.method === "OPTIONS") {
+        return respond(res, 204, undefined);
+      }
+
+      const playerPath = req.url?.match(/^\/players\/(0x[0-9a-fA-F]{40})$/);
+      if (req.method === "GET" && playerPath) {
+        const state = await playerState(game, ethers.getAddress(playerPath[1]));
+        const player: RelayerPlayer = { nonce: state.nonce.toString(), quotaLeft: QUOTA - state.used };
+        return respond(res, 200, player);
+      }
+
+      if (req.method === "POST" && req.url === "/relay") {
+        const request = parseRequest(await readBody(req));
+        const relayed = queue.then(() => relay(game, domain, request));
+        queue = relayed.catch(() => {});
+        return respond(res, 200, { hash: await relayed });
+      }
+
+      respond(res, 404, { error: "Not found." });
+    } catch (error) {
+      if (error instanceof RelayError) {
+        return respond(res, error.status, { error: error.message });
+      }
+      console.error("Failed to relay:", error);
+      respond(res, 500, { error: (error as { shortMessage?: string }).shortMessage ?? (error as Error).message });
+    }
+  });
+
+  server.listen(PORT, async () => {
+    console.log("\n=== Relayer ===");
+    console.log(`Game:    ${address} (chain ${chainId})`);
+    console.log(`Relayer: ${signer.address}, ${ethers.formatEther(await ethers.provider.getBalance(signer))} ETH`);
+    console.log(`Quota:   ${QUOTA} moves per ${QUOTA_WINDOW / 1000} s`);
+    console.log(`Listening on http://localhost:${PORT}`);
+    console.log("===============\n");
+  });
+
+  // Serve until stopped.
+  await new Promise(() => {});
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
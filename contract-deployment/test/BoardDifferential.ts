@@ -0,0 +1,350 @@
+// test/BoardDifferential.ts
+//
+// Differential fuzzing of LibBoard.sol against the frontend engine
+// (src/utils/engine.ts). Every case is run through the deployed Board library
+// on the in-process hardhat network and through the TypeScript port; any
+// divergence is shrunk to a minimal counterexample before failing.
+//
+// FUZZ_RUNS sets the number of cases per property (default 200) and
+// FUZZ_SEED replays a previous run.
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import * as engine from "../../src/utils/engine";
+
+const RUNS = Number(process.env.FUZZ_RUNS || 200);
+const SEED = BigInt(process.env.FUZZ_SEED || Date.now());
+
+type Outcome = { value: bigint | boolean | number } | { revert: string };
+
+type Case = {
+  board: bigint;
+  move: number;
+  seed: bigint;
+  next?: bigint;
+};
+
+// =============================================================//
+//                          GENERATORS                          //
+// =============================================================//
+
+// xorshift64* so that a failing FUZZ_SEED reproduces the exact same cases.
+function createRandom(seed: bigint) {
+  let state = seed & 0xffffffffffffffffn || 1n;
+
+  function next(): bigint {
+    state ^= state >> 12n;
+    state ^= (state << 25n) & 0xffffffffffffffffn;
+    state ^= state >> 27n;
+    return (state * 0x2545f4914f6cdd1dn) & 0xffffffffffffffffn;
+  }
+
+  return {
+    int(max: number): number {
+      return Number(next() % BigInt(max));
+    },
+    uint(bits: number): bigint {
+      let value = 0n;
+      for (let i = 0; i < bits; i += 64) {
+        value = (value << 64n) | next();
+      }
+      return value & ((1n << BigInt(bits)) - 1n);
+    },
+  };
+}
+
+type Random = ReturnType<typeof createRandom>;
+
+function randomBoard(random: Random): bigint {
+  // Mix sparse, dense and full boards so every compress/merge path is hit.
+  const density = [0.2, 0.5, 0.8, 1][random.int(4)];
+  const maxExponent = 1 + random.int(12);
+
+  let board = 0n;
+  for (let pos = 0; pos < 16; pos++) {
+    if (random.int(1000) < density * 1000) {
+      board = engine.setTile(board, pos, 1 + random.int(maxExponent));
+    }
+  }
+  return board;
+}
+
+function randomMove(random: Random): number {
+  // Out of range moves must revert exactly like the contract does.
+  return random.int(20) === 0 ? 4 + random.int(252) : random.int(4);
+}
+
+function randomStartBoard(random: Random): bigint {
+  switch (random.int(4)) {
+    case 0:
+      return engine.getStartPosition(toBytes32(random.uint(256)));
+    case 1:
+      return random.uint(128);
+    default: {
+      // Near-valid positions: a handful of low tiles.
+      let board = 0n;
+      const count = random.int(4);
+      for (let i = 0; i < count; i++) {
+        board = engine.setTile(board, random.int(16), random.int(4));
+      }
+      return board;
+    }
+  }
+}
+
+function toBytes32(value: bigint): `0x${string}` {
+  return `0x${value.toString(16).padStart(64, "0")}`;
+}
+
+// =============================================================//
+//                           OUTCOMES                           //
+// =============================================================//
+
+const ERROR_STRING_SELECTOR = "0x08c379a0";
+
+async function fromContract(call: () => Promise<bigint | boolean | number>): Promise<Outcome> {
+  try {
+    return { value: await call() };
+  } catch (error) {
+    // The hardhat network surfaces the raw `Error(string)` revert data.
+    const data = (error as { data?: string }).data;
+    if (!data?.startsWith(ERROR_STRING_SELECTOR)) {
+      throw error;
+    }
+    const [reason] = ethers.AbiCoder.defaultAbiCoder().decode(["string"], `0x${data.slice(10)}`);
+    return { revert: reason };
+  }
+}
+
+function fromEngine(call: () => bigint | boolean | number): Outcome {
+  try {
+    return { value: call() };
+  } catch (error) {
+    return { revert: (error as Error).message };
+  }
+}
+
+function sameOutcome(a: Outcome, b: Outcome): boolean {
+  if ("revert" in a || "revert" in b) {
+    return "revert" in a && "revert" in b && a.revert === b.revert;
+  }
+  return a.value === b.value;
+}
+
+function formatOutcome(outcome: Outcome): string {
+  if ("revert" in outcome) {
+    return `revert(${outcome.revert})`;
+  }
+  return typeof outcome.value === "bigint" ? formatBoard(outcome.value) : String(outcome.value);
+}
+
+function formatBoard(board: bigint): string {
+  const rows = [0, 1, 2, 3].map((row) =>
+    [0, 1, 2, 3].map((col) => String(engine.getTile(board, row * 4 + col)).padStart(3)).join("")
+  );
+  return `0x${board.toString(16).padStart(32, "0")}\n      ${rows.join("\n      ")}`;
+}
+
+// =============================================================//
+//                          SHRINKING                           //
+// =============================================================//
+
+// Smaller variants of a case, simplest first.
+function* shrinkCase(c: Case): Generator<Case> {
+  for (const seed of [0n, c.seed % 1600n, c.seed >> 1n]) {
+    if (seed < c.seed) yield { ...c, seed };
+  }
+  for (let pos = 0; pos < 16; pos++) {
+    const value = engine.getTile(c.board, pos);
+    if (value > 0) {
+      yield { ...c, board: engine.setTile(c.board, pos, 0) };
+    }
+    if (value > 1) {
+      yield { ...c, board: engine.setTile(c.board, pos, value - 1) };
+    }
+  }
+  if (c.move > 4) {
+    yield { ...c, move: 4 };
+  }
+}
+
+/**
+ * Greedily applies shrinks while the case still diverges, returning the
+ * smallest diverging case found.
+ */
+async function minimize(c: Case, diverges: (c: Case) => Promise<boolean>): Promise<Case> {
+  let current = c;
+  let progress = true;
+  while (progress) {
+    progress = false;
+    for (const candidate of shrinkCase(current)) {
+      if (await diverges(candidate)) {
+        current = candidate;
+        progress = true;
+        break;
+      }
+    }
+  }
+  return current;
+}
+
+async function checkProperty(
+  name: string,
+  generate: (random: Random) => Case,
+  run: (c: Case) => Promise<[Outcome, Outcome]>
+) {
+  const random = createRandom(SEED);
+  const diverges = async (c: Case) => {
+    const [onChain, offChain] = await run(c);
+    return !sameOutcome(onChain, offChain);
+  };
+
+  for (let i = 0; i < RUNS; i++) {
+    const c = generate(random);
+    if (!(await diverges(c))) continue;
+
+    const minimal = await minimize(c, diverges);
+    const [onChain, offChain] = await run(minimal);
+    expect.fail(
+      `${name} diverged (FUZZ_SEED=${SEED}, case ${i})\n` +
+        `    board: ${formatBoard(minimal.board)}\n` +
+        `    move:  ${minimal.move}\n` +
+        `    seed:  ${minimal.seed}\n` +
+        (minimal.next === undefined ? "" : `    next:  ${formatBoard(minimal.next)}\n`) +
+        `    LibBoard.sol: ${formatOutcome(onChain)}\n` +
+        `    engine.ts:    ${formatOutcome(offChain)}`
+    );
+  }
+}
+
+// =============================================================//
+//                            TESTS                             //
+// =============================================================//
+
+describe("Board differential fuzzing", function () {
+  async function deployBoardFixture() {
+    const Board = await ethers.getContractFactory("Board");
+    const board = await Board.deploy();
+    return { board };
+  }
+
+  it("processMove(uint128,bool,bool) slides like the engine", async function () {
+    const { board } = await loadFixture(deployBoardFixture);
+
+    await checkProperty(
+      "slide",
+      (random) => ({ board: randomBoard(random), move: random.int(4), seed: 0n }),
+      async (c) => [
+        await fromContract(
+          async () => (await board["processMove(uint128,bool,bool)"](c.board, c.move <= 1, c.move % 2 === 0)).result
+        ),
+        fromEngine(() => engine.slide(c.board, c.move).result),
+      ]
+    );
+  });
+
+  it("processMove(uint128,bool,bool) scores merges like the engine", async function () {
+    const { board } = await loadFixture(deployBoardFixture);
+
+    await checkProperty(
+      "slide score",
+      (random) => ({ board: randomBoard(random), move: random.int(4), seed: 0n }),
+      async (c) => [
+        await fromContract(async () =>
+          Number((await board["processMove(uint128,bool,bool)"](c.board, c.move <= 1, c.move % 2 === 0)).score)
+        ),
+        fromEngine(() => engine.slide(c.board, c.move).score),
+      ]
+    );
+  });
+
+  it("processMove(uint128,uint8,uint256) matches the engine", async function () {
+    const { board } = await loadFixture(deployBoardFixture);
+
+    await checkProperty(
+      "processMove",
+      (random) => ({ board: randomBoard(random), move: randomMove(random), seed: random.uint(256) }),
+      async (c) => [
+        await fromContract(
+          async () => (await board["processMove(uint128,uint8,uint256)"](c.board, c.move, c.seed)).result
+        ),
+        fromEngine(() => engine.processMove(c.board, c.move, c.seed)),
+      ]
+    );
+  });
+
+  it("processMove(uint128,uint8,uint256) scores like the engine", async function () {
+    const { board } = await loadFixture(deployBoardFixture);
+
+    await checkProperty(
+      "processMove score",
+      (random) => ({ board: randomBoard(random), move: randomMove(random), seed: random.uint(256) }),
+      async (c) => [
+        await fromContract(async () =>
+          Number((await board["processMove(uint128,uint8,uint256)"](c.board, c.move, c.seed)).score)
+        ),
+        fromEngine(() => {
+          engine.processMove(c.board, c.move, c.seed);
+          return engine.slide(c.board, c.move).score;
+        }),
+      ]
+    );
+  });
+
+  it("validateTransformation agrees with the engine", async function () {
+    const { board } = await loadFixture(deployBoardFixture);
+
+    await checkProperty(
+      "validateTransformation",
+      (random) => {
+        const c = { board: randomBoard(random), move: randomMove(random), seed: random.uint(256) };
+        // Half of the cases submit the engine's own result, the rest a random board.
+        let next = randomBoard(random);
+        if (random.int(2) === 0) {
+          try {
+            next = engine.processMove(c.board, c.move, c.seed);
+          } catch {
+            // Unplayable move: keep the random board.
+          }
+        }
+        return { ...c, next };
+      },
+      async (c) => [
+        await fromContract(() => board.validateTransformation(c.board, c.move, c.next!, c.seed)),
+        fromEngine(() => engine.validateTransformation(c.board, c.move, c.next!, c.seed)),
+      ]
+    );
+  });
+
+  it("validateStartPosition agrees with the engine", async function () {
+    const { board } = await loadFixture(deployBoardFixture);
+
+    await checkProperty(
+      "validateStartPosition",
+      (random) => ({ board: randomStartBoard(random), move: 0, seed: 0n }),
+      async (c) => [
+        await fromContract(() => board.validateStartPosition(c.board)),
+        fromEngine(() => engine.validateStartPosition(c.board)),
+      ]
+    );
+  });
+
+  it("getStartPosition matches the engine and is a valid start", async function () {
+    const { board } = await loadFixture(deployBoardFixture);
+
+    await checkProperty(
+      "getStartPosition",
+      (random) => ({ board: 0n, move: 0, seed: random.uint(256) }),
+      async (c) => [
+        await fromContract(() => board.getStartPosition(toBytes32(c.seed))),
+        fromEngine(() => engine.getStartPosition(toBytes32(c.seed))),
+      ]
+    );
+
+    const random = createRandom(SEED);
+    for (let i = 0; i < RUNS; i++) {
+      const start = engine.getStartPosition(toBytes32(random.uint(256)));
+      expect(await board.validateStartPosition(start)).to.equal(true, formatBoard(start));
+    }
+  });
+});
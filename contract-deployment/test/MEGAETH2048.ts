@@ -0,0 +1,119 @@
+// test/MEGAETH2048.ts
+//
+// Games played directly by their player: batches of moves and the on-chain
+// score.
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import * as engine from "../../src/utils/engine";
+import { deployGame, Hex, nextMove, opening, randomGameId } from "./helpers";
+
+describe("MEGAETH2048", function () {
+  async function deployGameFixture() {
+    const { game } = await deployGame();
+
+    const [player] = await ethers.getSigners();
+    return { game, player };
+  }
+
+  // Starts a game for the player and returns its latest board.
+  async function startGame({ game, player }: Awaited<ReturnType<typeof deployGameFixture>>) {
+    const gameId = randomGameId(player.address);
+    const { boards, moves } = opening(gameId);
+    await game.startGame(gameId, boards, moves);
+    return { gameId, board: boards[3] };
+  }
+
+  // The `count` moves after the opening, with the board after each.
+  function movesAfter(gameId: Hex, board: bigint, count: number) {
+    const moves: number[] = [];
+    const boards: bigint[] = [];
+    for (let i = 0; i < count; i++) {
+      const played = nextMove(gameId, boards[i - 1] ?? board, 4 + i);
+      moves.push(played.move);
+      boards.push(played.board);
+    }
+    return { moves, boards };
+  }
+
+  describe("playBatch", function () {
+    it("rejects an empty batch", async function () {
+      const fixture = await loadFixture(deployGameFixture);
+      const { gameId } = await startGame(fixture);
+
+      await expect(fixture.game.playBatch(gameId, [], [])).to.be.revertedWith("GameBoardInvalid");
+    });
+
+    it("rejects moves and boards of different lengths", async function () {
+      const fixture = await loadFixture(deployGameFixture);
+      const { gameId, board } = await startGame(fixture);
+      const { moves, boards } = movesAfter(gameId, board, 3);
+
+      await expect(fixture.game.playBatch(gameId, moves, boards.slice(0, 2))).to.be.revertedWith("GameBoardInvalid");
+      await expect(fixture.game.playBatch(gameId, moves.slice(0, 2), boards)).to.be.revertedWith("GameBoardInvalid");
+    });
+
+    it("reverts the whole batch on an invalid move", async function () {
+      const fixture = await loadFixture(deployGameFixture);
+      const { game } = fixture;
+      const { gameId, board } = await startGame(fixture);
+      const { moves, boards } = movesAfter(gameId, board, 3);
+
+      const tampered = [boards[0], boards[1] ^ 1n, boards[2]];
+      await expect(game.playBatch(gameId, moves, tampered)).to.be.revertedWith("GameBoardInvalid");
+
+      expect(await game.nextMove(gameId)).to.equal(4);
+      expect(await game.latestBoard(gameId)).to.equal(board);
+      expect(await game.isMoveConfirmed(gameId, 4)).to.equal(false);
+    });
+
+    it("emits a NewMove and MoveConfirmed pair per move, in order", async function () {
+      const fixture = await loadFixture(deployGameFixture);
+      const { game, player } = fixture;
+      const { gameId, board } = await startGame(fixture);
+      const { moves, boards } = movesAfter(gameId, board, 4);
+
+      const receipt = await (await game.playBatch(gameId, moves, boards)).wait();
+      const events = receipt!.logs.map((log) => game.interface.parseLog(log)!);
+
+      expect(events.map(({ name }) => name)).to.deep.equal(moves.flatMap(() => ["NewMove", "MoveConfirmed"]));
+      moves.forEach((move, i) => {
+        const [newMove, confirmed] = events.slice(2 * i, 2 * i + 2);
+        expect(newMove.args.player).to.equal(player.address);
+        expect(newMove.args.move).to.equal(move);
+        expect(newMove.args.result).to.equal(boards[i]);
+        expect(confirmed.args.move).to.equal(4 + i);
+        expect(confirmed.args.blockNumber).to.equal(receipt!.blockNumber);
+      });
+
+      expect(await game.nextMove(gameId)).to.equal(4 + moves.length);
+      expect(await game.latestBoard(gameId)).to.equal(boards[boards.length - 1]);
+    });
+  });
+
+  describe("getScore", function () {
+    it("adds up the merges of every move, as NewMove reports", async function () {
+      const fixture = await loadFixture(deployGameFixture);
+      const { game, player } = fixture;
+      const gameId = randomGameId(player.address);
+      const { boards, moves } = opening(gameId);
+      await game.startGame(gameId, boards, moves);
+
+      let score = moves.reduce((sum, move, i) => sum + engine.slide(boards[i], move).score, 0);
+      expect(await game.getScore(gameId)).to.equal(score);
+
+      let board = boards[3];
+      for (let moveNumber = 4; moveNumber < 24; moveNumber++) {
+        const { move, board: result } = nextMove(gameId, board, moveNumber);
+        score += engine.slide(board, move).score;
+
+        await expect(game.play(gameId, move, result))
+          .to.emit(game, "NewMove")
+          .withArgs(player.address, gameId, move, result, score);
+        expect(await game.getScore(gameId)).to.equal(score);
+        board = result;
+      }
+      expect(score).to.be.greaterThan(0);
+    });
+  });
+});
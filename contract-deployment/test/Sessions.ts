@@ -0,0 +1,123 @@
+// test/Sessions.ts
+//
+// Session keys: a player authorizes a short-lived key, optionally capped to a
+// number of moves, to start and play their games without signing each move.
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import * as engine from "../../src/utils/engine";
+import { deployGame, nextMove, opening, randomGameId } from "./helpers";
+
+describe("Session keys", function () {
+  async function deployGameFixture() {
+    const { game } = await deployGame();
+
+    const [player, sessionKey, other] = await ethers.getSigners();
+    const expiry = (await time.latest()) + 3600;
+    return { game, player, sessionKey, other, expiry };
+  }
+
+  // Starts a game through the session key and returns its latest board.
+  async function startThroughSession(fixture: Awaited<ReturnType<typeof deployGameFixture>>) {
+    const { game, player, sessionKey } = fixture;
+    const gameId = randomGameId(player.address);
+    const { boards, moves } = opening(gameId);
+    await game.connect(sessionKey).startGame(gameId, boards, moves);
+    return { gameId, board: boards[3] };
+  }
+
+  it("lets an authorized key start and play the player's games", async function () {
+    const fixture = await loadFixture(deployGameFixture);
+    const { game, player, sessionKey, expiry } = fixture;
+
+    await expect(game.connect(player).authorizeSession(sessionKey.address, expiry, 0))
+      .to.emit(game, "SessionAuthorized")
+      .withArgs(player.address, sessionKey.address, expiry, 0);
+
+    const { gameId, board } = await startThroughSession(fixture);
+    const { move, board: result } = nextMove(gameId, board, 4);
+    const score = (await game.getScore(gameId)) + BigInt(engine.slide(board, move).score);
+
+    // Events name the player, not the key.
+    await expect(game.connect(sessionKey).play(gameId, move, result))
+      .to.emit(game, "NewMove")
+      .withArgs(player.address, gameId, move, result, score);
+    expect(await game.latestBoard(gameId)).to.equal(result);
+  });
+
+  it("forwards the value sent with the authorization to the key", async function () {
+    const { game, player, sessionKey, expiry } = await loadFixture(deployGameFixture);
+    const funding = ethers.parseEther("0.01");
+
+    await expect(
+      game.connect(player).authorizeSession(sessionKey.address, expiry, 0, { value: funding })
+    ).to.changeEtherBalances([player, sessionKey], [-funding, funding]);
+  });
+
+  it("rejects keys of other players and unauthorized keys", async function () {
+    const fixture = await loadFixture(deployGameFixture);
+    const { game, player, sessionKey, other, expiry } = fixture;
+
+    const gameId = randomGameId(player.address);
+    const { boards, moves } = opening(gameId);
+    await expect(game.connect(sessionKey).startGame(gameId, boards, moves)).to.be.revertedWith("GamePlayerInvalid");
+
+    // A key authorized by one player cannot be claimed by another.
+    await game.connect(other).authorizeSession(sessionKey.address, expiry, 0);
+    await expect(game.connect(sessionKey).startGame(gameId, boards, moves)).to.be.revertedWith("GamePlayerInvalid");
+    await expect(game.connect(player).authorizeSession(sessionKey.address, expiry, 0)).to.be.revertedWith(
+      "GamePlayerInvalid"
+    );
+  });
+
+  it("stops the key after its expiry", async function () {
+    const fixture = await loadFixture(deployGameFixture);
+    const { game, player, sessionKey, expiry } = fixture;
+
+    await game.connect(player).authorizeSession(sessionKey.address, expiry, 0);
+    const { gameId, board } = await startThroughSession(fixture);
+
+    await time.increaseTo(expiry + 1);
+    const { move, board: result } = nextMove(gameId, board, 4);
+    await expect(game.connect(sessionKey).play(gameId, move, result)).to.be.revertedWith("SessionInvalid");
+
+    // The player can still play themselves.
+    await game.connect(player).play(gameId, move, result);
+    expect(await game.nextMove(gameId)).to.equal(5);
+  });
+
+  it("counts every move against the cap", async function () {
+    const fixture = await loadFixture(deployGameFixture);
+    const { game, player, sessionKey, expiry } = fixture;
+
+    // The opening takes 3 moves, leaving 2.
+    await game.connect(player).authorizeSession(sessionKey.address, expiry, 5);
+    const { gameId, board } = await startThroughSession(fixture);
+    expect((await game.sessions(sessionKey.address)).movesLeft).to.equal(2);
+
+    const first = nextMove(gameId, board, 4);
+    const second = nextMove(gameId, first.board, 5);
+    const third = nextMove(gameId, second.board, 6);
+    await expect(
+      game.connect(sessionKey).playBatch(gameId, [first.move, second.move, third.move], [first.board, second.board, third.board])
+    ).to.be.revertedWith("SessionInvalid");
+
+    await game.connect(sessionKey).playBatch(gameId, [first.move, second.move], [first.board, second.board]);
+    await expect(game.connect(sessionKey).play(gameId, third.move, third.board)).to.be.revertedWith("SessionInvalid");
+  });
+
+  it("can be revoked by the player or the key itself", async function () {
+    const fixture = await loadFixture(deployGameFixture);
+    const { game, player, sessionKey, other, expiry } = fixture;
+
+    await game.connect(player).authorizeSession(sessionKey.address, expiry, 0);
+    await expect(game.connect(other).revokeSession(sessionKey.address)).to.be.revertedWith("GamePlayerInvalid");
+    await expect(game.connect(sessionKey).revokeSession(sessionKey.address))
+      .to.emit(game, "SessionRevoked")
+      .withArgs(player.address, sessionKey.address);
+
+    const gameId = randomGameId(player.address);
+    const { boards, moves } = opening(gameId);
+    await expect(game.connect(sessionKey).startGame(gameId, boards, moves)).to.be.revertedWith("GamePlayerInvalid");
+  });
+});
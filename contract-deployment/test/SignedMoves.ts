@@ -0,0 +1,149 @@
+// test/SignedMoves.ts
+//
+// EIP-712 signed startGame / play payloads, submitted by a relayer that pays
+// for the gas: signer checks, nonces, deadlines and session keys.
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { Signer } from "ethers";
+import { GAME_TYPES, gameDomain } from "../../src/utils/typedData";
+import { deployGame, Hex, nextMove, opening, randomGameId } from "./helpers";
+
+describe("Signed moves", function () {
+  async function deployGameFixture() {
+    const { game } = await deployGame();
+
+    const [player, relayer, sessionKey, other] = await ethers.getSigners();
+    const { chainId } = await ethers.provider.getNetwork();
+    const domain = gameDomain(Number(chainId), (await game.getAddress()) as Hex);
+    const deadline = (await time.latest()) + 3600;
+    return { game, player, relayer, sessionKey, other, domain, deadline };
+  }
+
+  type Fixture = Awaited<ReturnType<typeof deployGameFixture>>;
+
+  function signStart(
+    { domain }: Fixture,
+    signer: Signer,
+    gameId: Hex,
+    { boards, moves }: ReturnType<typeof opening>,
+    nonce: number,
+    deadline: number
+  ) {
+    return signer.signTypedData(
+      domain,
+      { StartGame: [...GAME_TYPES.StartGame] },
+      { gameId, boards, moves, nonce, deadline }
+    );
+  }
+
+  function signPlay(
+    { domain }: Fixture,
+    signer: Signer,
+    gameId: Hex,
+    moves: number[],
+    resultBoards: bigint[],
+    nonce: number,
+    deadline: number
+  ) {
+    return signer.signTypedData(
+      domain,
+      { Play: [...GAME_TYPES.Play] },
+      { gameId, moves, resultBoards, nonce, deadline }
+    );
+  }
+
+  // Starts a game signed by the player and relayed, returning its latest board.
+  async function startSigned(fixture: Fixture) {
+    const { game, player, relayer, deadline } = fixture;
+    const gameId = randomGameId(player.address);
+    const start = opening(gameId);
+    const signature = await signStart(fixture, player, gameId, start, 0, deadline);
+    await game.connect(relayer).startGameBySig(gameId, start.boards, start.moves, deadline, signature);
+    return { gameId, board: start.boards[3] };
+  }
+
+  it("starts and plays a game signed by the player and paid by the relayer", async function () {
+    const fixture = await loadFixture(deployGameFixture);
+    const { game, player, relayer, deadline } = fixture;
+
+    const { gameId, board } = await startSigned(fixture);
+    expect(await game.nonces(player.address)).to.equal(1);
+
+    const first = nextMove(gameId, board, 4);
+    const second = nextMove(gameId, first.board, 5);
+    const moves = [first.move, second.move];
+    const boards = [first.board, second.board];
+    const signature = await signPlay(fixture, player, gameId, moves, boards, 1, deadline);
+
+    // Events name the player, not the relayer.
+    await expect(game.connect(relayer).playBySig(gameId, moves, boards, deadline, signature))
+      .to.emit(game, "MoveConfirmed")
+      .withArgs(player.address, gameId, 5, anyValue);
+    expect(await game.latestBoard(gameId)).to.equal(second.board);
+    expect(await game.nonces(player.address)).to.equal(2);
+  });
+
+  it("rejects replayed, reordered and expired signatures", async function () {
+    const fixture = await loadFixture(deployGameFixture);
+    const { game, player, relayer, deadline } = fixture;
+
+    const gameId = randomGameId(player.address);
+    const start = opening(gameId);
+    const signature = await signStart(fixture, player, gameId, start, 0, deadline);
+    await game.connect(relayer).startGameBySig(gameId, start.boards, start.moves, deadline, signature);
+
+    // The nonce is used up, so the same payload recovers another signer.
+    await expect(
+      game.connect(relayer).startGameBySig(gameId, start.boards, start.moves, deadline, signature)
+    ).to.be.revertedWith("GamePlayerInvalid");
+
+    const { move, board } = nextMove(gameId, start.boards[3], 4);
+    const ahead = await signPlay(fixture, player, gameId, [move], [board], 2, deadline);
+    await expect(game.connect(relayer).playBySig(gameId, [move], [board], deadline, ahead)).to.be.revertedWith(
+      "GamePlayerInvalid"
+    );
+
+    const expired = await signPlay(fixture, player, gameId, [move], [board], 1, deadline);
+    await time.increaseTo(deadline + 1);
+    await expect(game.connect(relayer).playBySig(gameId, [move], [board], deadline, expired)).to.be.revertedWith(
+      "SignatureInvalid"
+    );
+  });
+
+  it("rejects payloads signed by anyone but the player or their session keys", async function () {
+    const fixture = await loadFixture(deployGameFixture);
+    const { game, player, relayer, sessionKey, other, deadline } = fixture;
+
+    const gameId = randomGameId(player.address);
+    const start = opening(gameId);
+    const forged = await signStart(fixture, other, gameId, start, 0, deadline);
+    await expect(
+      game.connect(relayer).startGameBySig(gameId, start.boards, start.moves, deadline, forged)
+    ).to.be.revertedWith("GamePlayerInvalid");
+    await expect(
+      game.connect(relayer).startGameBySig(gameId, start.boards, start.moves, deadline, "0x1234")
+    ).to.be.revertedWith("SignatureInvalid");
+
+    // A session key signs for its player and spends its moves.
+    await game.connect(player).authorizeSession(sessionKey.address, deadline, 5);
+    const signature = await signStart(fixture, sessionKey, gameId, start, 0, deadline);
+    await game.connect(relayer).startGameBySig(gameId, start.boards, start.moves, deadline, signature);
+    expect((await game.sessions(sessionKey.address)).movesLeft).to.equal(2);
+  });
+
+  it("keeps signed and direct moves in one sequence", async function () {
+    const fixture = await loadFixture(deployGameFixture);
+    const { game, player, relayer, deadline } = fixture;
+
+    const { gameId, board } = await startSigned(fixture);
+    const first = nextMove(gameId, board, 4);
+    await game.connect(player).play(gameId, first.move, first.board);
+
+    const second = nextMove(gameId, first.board, 5);
+    const signature = await signPlay(fixture, player, gameId, [second.move], [second.board], 1, deadline);
+    await game.connect(relayer).playBySig(gameId, [second.move], [second.board], deadline, signature);
+    expect(await game.nextMove(gameId)).to.equal(6);
+  });
+});
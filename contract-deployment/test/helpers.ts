@@ -0,0 +1,45 @@
+// test/helpers.ts
+//
+// Games played with the TS engine, and the deployment they are played on,
+// shared by the contract tests.
+import { ethers } from "hardhat";
+import * as engine from "../../src/utils/engine";
+
+export type Hex = `0x${string}`;
+
+export const DIRECTIONS = [engine.Direction.UP, engine.Direction.DOWN, engine.Direction.LEFT, engine.Direction.RIGHT];
+
+export function randomGameId(player: string): Hex {
+  return ethers.concat([player, ethers.randomBytes(12)]) as Hex;
+}
+
+// Plays the first possible move after `moveNumber - 1` moves.
+export function nextMove(gameId: Hex, board: bigint, moveNumber: number) {
+  const move = DIRECTIONS.find((direction) => engine.canMove(board, direction))!;
+  return { move, board: engine.processMove(board, move, engine.moveSeed(gameId, moveNumber)) };
+}
+
+export function opening(gameId: Hex) {
+  const boards = [engine.getStartPosition(gameId)];
+  const moves: number[] = [];
+  for (let i = 1; i <= 3; i++) {
+    const { move, board } = nextMove(gameId, boards[i - 1], i);
+    moves.push(move);
+    boards.push(board);
+  }
+  return {
+    boards: boards as [bigint, bigint, bigint, bigint],
+    moves: moves as [number, number, number],
+  };
+}
+
+// MEGAETH2048 linked to a fresh Board library.
+export async function deployGame() {
+  const Board = await ethers.getContractFactory("Board");
+  const board = await Board.deploy();
+  const MEGAETH2048 = await ethers.getContractFactory("MEGAETH2048", {
+    libraries: { Board: await board.getAddress() },
+  });
+  const game = await MEGAETH2048.deploy();
+  return { board, game };
+}
@@ -158,13 +158,13 @@ export interface Board extends BaseContract {
 
   "processMove(uint128,bool,bool)": TypedContractMethod<
     [board: BigNumberish, isVertical: boolean, isLeft: boolean],
-    [bigint],
+    [[bigint, bigint] & { result: bigint; score: bigint }],
     "view"
   >;
 
   "processMove(uint128,uint8,uint256)": TypedContractMethod<
     [board: BigNumberish, move: BigNumberish, seed: BigNumberish],
-    [bigint],
+    [[bigint, bigint] & { result: bigint; score: bigint }],
     "view"
   >;
 
@@ -219,14 +219,14 @@ export interface Board extends BaseContract {
     nameOrSignature: "processMove(uint128,bool,bool)"
   ): TypedContractMethod<
     [board: BigNumberish, isVertical: boolean, isLeft: boolean],
-    [bigint],
+    [[bigint, bigint] & { result: bigint; score: bigint }],
     "view"
   >;
   getFunction(
     nameOrSignature: "processMove(uint128,uint8,uint256)"
   ): TypedContractMethod<
     [board: BigNumberish, move: BigNumberish, seed: BigNumberish],
-    [bigint],
+    [[bigint, bigint] & { result: bigint; score: bigint }],
     "view"
   >;
   getFunction(
@@ -26,22 +26,59 @@ import type {
 export interface MEGAETH2048Interface extends Interface {
   getFunction(
     nameOrSignature:
+      | "DOMAIN_SEPARATOR"
+      | "PLAY_TYPEHASH"
+      | "START_GAME_TYPEHASH"
+      | "UNLIMITED_MOVES"
+      | "authorizeSession"
       | "calculateSeed"
       | "gameHashOf"
       | "getBoard"
+      | "getScore"
       | "isMoveConfirmed"
       | "latestBoard"
       | "moveConfirmed"
       | "nextMove"
+      | "nonces"
       | "play"
+      | "playBatch"
+      | "playBySig"
+      | "revokeSession"
+      | "sessions"
       | "startGame"
+      | "startGameBySig"
       | "state"
   ): FunctionFragment;
 
   getEvent(
-    nameOrSignatureOrTopic: "MoveConfirmed" | "NewGame" | "NewMove"
+    nameOrSignatureOrTopic:
+      | "MoveConfirmed"
+      | "NewGame"
+      | "NewMove"
+      | "SessionAuthorized"
+      | "SessionRevoked"
   ): EventFragment;
 
+  encodeFunctionData(
+    functionFragment: "DOMAIN_SEPARATOR",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PLAY_TYPEHASH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "START_GAME_TYPEHASH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "UNLIMITED_MOVES",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "authorizeSession",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "calculateSeed",
     values: [BytesLike, BigNumberish]
@@ -51,6 +88,7 @@ export interface MEGAETH2048Interface extends Interface {
     values: [BytesLike]
   ): string;
   encodeFunctionData(functionFragment: "getBoard", values: [BytesLike]): string;
+  encodeFunctionData(functionFragment: "getScore", values: [BytesLike]): string;
   encodeFunctionData(
     functionFragment: "isMoveConfirmed",
     values: [BytesLike, BigNumberish]
@@ -64,10 +102,27 @@ export interface MEGAETH2048Interface extends Interface {
     values: [BytesLike, BigNumberish]
   ): string;
   encodeFunctionData(functionFragment: "nextMove", values: [BytesLike]): string;
+  encodeFunctionData(functionFragment: "nonces", values: [AddressLike]): string;
   encodeFunctionData(
     functionFragment: "play",
     values: [BytesLike, BigNumberish, BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "playBatch",
+    values: [BytesLike, BigNumberish[], BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "playBySig",
+    values: [BytesLike, BigNumberish[], BigNumberish[], BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeSession",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "sessions",
+    values: [AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "startGame",
     values: [
@@ -76,14 +131,45 @@ export interface MEGAETH2048Interface extends Interface {
       [BigNumberish, BigNumberish, BigNumberish]
     ]
   ): string;
+  encodeFunctionData(
+    functionFragment: "startGameBySig",
+    values: [
+      BytesLike,
+      [BigNumberish, BigNumberish, BigNumberish, BigNumberish],
+      [BigNumberish, BigNumberish, BigNumberish],
+      BigNumberish,
+      BytesLike
+    ]
+  ): string;
   encodeFunctionData(functionFragment: "state", values: [BytesLike]): string;
 
+  decodeFunctionResult(
+    functionFragment: "DOMAIN_SEPARATOR",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PLAY_TYPEHASH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "START_GAME_TYPEHASH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "UNLIMITED_MOVES",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "authorizeSession",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "calculateSeed",
     data: BytesLike
   ): Result;
   decodeFunctionResult(functionFragment: "gameHashOf", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "getBoard", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getScore", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "isMoveConfirmed",
     data: BytesLike
@@ -97,8 +183,20 @@ export interface MEGAETH2048Interface extends Interface {
     data: BytesLike
   ): Result;
   decodeFunctionResult(functionFragment: "nextMove", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "nonces", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "play", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "playBatch", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "playBySig", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "revokeSession",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "sessions", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "startGame", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "startGameBySig",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "state", data: BytesLike): Result;
 }
 
@@ -150,19 +248,60 @@ export namespace NewMoveEvent {
     player: AddressLike,
     id: BytesLike,
     move: BigNumberish,
-    result: BigNumberish
+    result: BigNumberish,
+    score: BigNumberish
   ];
   export type OutputTuple = [
     player: string,
     id: string,
     move: bigint,
-    result: bigint
+    result: bigint,
+    score: bigint
   ];
   export interface OutputObject {
     player: string;
     id: string;
     move: bigint;
     result: bigint;
+    score: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SessionAuthorizedEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    sessionKey: AddressLike,
+    expiry: BigNumberish,
+    moveCap: BigNumberish
+  ];
+  export type OutputTuple = [
+    player: string,
+    sessionKey: string,
+    expiry: bigint,
+    moveCap: bigint
+  ];
+  export interface OutputObject {
+    player: string;
+    sessionKey: string;
+    expiry: bigint;
+    moveCap: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SessionRevokedEvent {
+  export type InputTuple = [player: AddressLike, sessionKey: AddressLike];
+  export type OutputTuple = [player: string, sessionKey: string];
+  export interface OutputObject {
+    player: string;
+    sessionKey: string;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -213,6 +352,20 @@ export interface MEGAETH2048 extends BaseContract {
     event?: TCEvent
   ): Promise<this>;
 
+  DOMAIN_SEPARATOR: TypedContractMethod<[], [string], "view">;
+
+  PLAY_TYPEHASH: TypedContractMethod<[], [string], "view">;
+
+  START_GAME_TYPEHASH: TypedContractMethod<[], [string], "view">;
+
+  UNLIMITED_MOVES: TypedContractMethod<[], [bigint], "view">;
+
+  authorizeSession: TypedContractMethod<
+    [sessionKey: AddressLike, expiry: BigNumberish, moveCap: BigNumberish],
+    [void],
+    "payable"
+  >;
+
   calculateSeed: TypedContractMethod<
     [gameId: BytesLike, moveNumber: BigNumberish],
     [bigint],
@@ -227,6 +380,8 @@ export interface MEGAETH2048 extends BaseContract {
     "view"
   >;
 
+  getScore: TypedContractMethod<[gameId: BytesLike], [bigint], "view">;
+
   isMoveConfirmed: TypedContractMethod<
     [gameId: BytesLike, moveNumber: BigNumberish],
     [boolean],
@@ -243,12 +398,50 @@ export interface MEGAETH2048 extends BaseContract {
 
   nextMove: TypedContractMethod<[gameId: BytesLike], [bigint], "view">;
 
+  nonces: TypedContractMethod<[player: AddressLike], [bigint], "view">;
+
   play: TypedContractMethod<
     [gameId: BytesLike, move: BigNumberish, resultBoard: BigNumberish],
     [void],
     "nonpayable"
   >;
 
+  playBatch: TypedContractMethod<
+    [gameId: BytesLike, moves: BigNumberish[], resultBoards: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+
+  playBySig: TypedContractMethod<
+    [
+      gameId: BytesLike,
+      moves: BigNumberish[],
+      resultBoards: BigNumberish[],
+      deadline: BigNumberish,
+      signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeSession: TypedContractMethod<
+    [sessionKey: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  sessions: TypedContractMethod<
+    [sessionKey: AddressLike],
+    [
+      [string, bigint, bigint] & {
+        player: string;
+        expiry: bigint;
+        movesLeft: bigint;
+      }
+    ],
+    "view"
+  >;
+
   startGame: TypedContractMethod<
     [
       gameId: BytesLike,
@@ -259,12 +452,25 @@ export interface MEGAETH2048 extends BaseContract {
     "nonpayable"
   >;
 
+  startGameBySig: TypedContractMethod<
+    [
+      gameId: BytesLike,
+      boards: [BigNumberish, BigNumberish, BigNumberish, BigNumberish],
+      moves: [BigNumberish, BigNumberish, BigNumberish],
+      deadline: BigNumberish,
+      signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
   state: TypedContractMethod<
     [gameId: BytesLike],
     [
-      [bigint, bigint, bigint] & {
+      [bigint, bigint, bigint, bigint] & {
         move: bigint;
         nextMove: bigint;
+        score: bigint;
         board: bigint;
       }
     ],
@@ -275,6 +481,25 @@ export interface MEGAETH2048 extends BaseContract {
     key: string | FunctionFragment
   ): T;
 
+  getFunction(
+    nameOrSignature: "DOMAIN_SEPARATOR"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "PLAY_TYPEHASH"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "START_GAME_TYPEHASH"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "UNLIMITED_MOVES"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "authorizeSession"
+  ): TypedContractMethod<
+    [sessionKey: AddressLike, expiry: BigNumberish, moveCap: BigNumberish],
+    [void],
+    "payable"
+  >;
   getFunction(
     nameOrSignature: "calculateSeed"
   ): TypedContractMethod<
@@ -292,6 +517,9 @@ export interface MEGAETH2048 extends BaseContract {
     [[bigint[], bigint] & { boardArr: bigint[]; nextMoveNumber: bigint }],
     "view"
   >;
+  getFunction(
+    nameOrSignature: "getScore"
+  ): TypedContractMethod<[gameId: BytesLike], [bigint], "view">;
   getFunction(
     nameOrSignature: "isMoveConfirmed"
   ): TypedContractMethod<
@@ -312,6 +540,9 @@ export interface MEGAETH2048 extends BaseContract {
   getFunction(
     nameOrSignature: "nextMove"
   ): TypedContractMethod<[gameId: BytesLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "nonces"
+  ): TypedContractMethod<[player: AddressLike], [bigint], "view">;
   getFunction(
     nameOrSignature: "play"
   ): TypedContractMethod<
@@ -319,6 +550,42 @@ export interface MEGAETH2048 extends BaseContract {
     [void],
     "nonpayable"
   >;
+  getFunction(
+    nameOrSignature: "playBatch"
+  ): TypedContractMethod<
+    [gameId: BytesLike, moves: BigNumberish[], resultBoards: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "playBySig"
+  ): TypedContractMethod<
+    [
+      gameId: BytesLike,
+      moves: BigNumberish[],
+      resultBoards: BigNumberish[],
+      deadline: BigNumberish,
+      signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revokeSession"
+  ): TypedContractMethod<[sessionKey: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "sessions"
+  ): TypedContractMethod<
+    [sessionKey: AddressLike],
+    [
+      [string, bigint, bigint] & {
+        player: string;
+        expiry: bigint;
+        movesLeft: bigint;
+      }
+    ],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "startGame"
   ): TypedContractMethod<
@@ -330,14 +597,28 @@ export interface MEGAETH2048 extends BaseContract {
     [void],
     "nonpayable"
   >;
+  getFunction(
+    nameOrSignature: "startGameBySig"
+  ): TypedContractMethod<
+    [
+      gameId: BytesLike,
+      boards: [BigNumberish, BigNumberish, BigNumberish, BigNumberish],
+      moves: [BigNumberish, BigNumberish, BigNumberish],
+      deadline: BigNumberish,
+      signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "state"
   ): TypedContractMethod<
     [gameId: BytesLike],
     [
-      [bigint, bigint, bigint] & {
+      [bigint, bigint, bigint, bigint] & {
         move: bigint;
         nextMove: bigint;
+        score: bigint;
         board: bigint;
       }
     ],
@@ -365,6 +646,20 @@ export interface MEGAETH2048 extends BaseContract {
     NewMoveEvent.OutputTuple,
     NewMoveEvent.OutputObject
   >;
+  getEvent(
+    key: "SessionAuthorized"
+  ): TypedContractEvent<
+    SessionAuthorizedEvent.InputTuple,
+    SessionAuthorizedEvent.OutputTuple,
+    SessionAuthorizedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SessionRevoked"
+  ): TypedContractEvent<
+    SessionRevokedEvent.InputTuple,
+    SessionRevokedEvent.OutputTuple,
+    SessionRevokedEvent.OutputObject
+  >;
 
   filters: {
     "MoveConfirmed(address,bytes32,uint256,uint256)": TypedContractEvent<
@@ -389,7 +684,7 @@ export interface MEGAETH2048 extends BaseContract {
       NewGameEvent.OutputObject
     >;
 
-    "NewMove(address,bytes32,uint256,uint256)": TypedContractEvent<
+    "NewMove(address,bytes32,uint256,uint256,uint256)": TypedContractEvent<
       NewMoveEvent.InputTuple,
       NewMoveEvent.OutputTuple,
       NewMoveEvent.OutputObject
@@ -399,5 +694,27 @@ export interface MEGAETH2048 extends BaseContract {
       NewMoveEvent.OutputTuple,
       NewMoveEvent.OutputObject
     >;
+
+    "SessionAuthorized(address,address,uint64,uint32)": TypedContractEvent<
+      SessionAuthorizedEvent.InputTuple,
+      SessionAuthorizedEvent.OutputTuple,
+      SessionAuthorizedEvent.OutputObject
+    >;
+    SessionAuthorized: TypedContractEvent<
+      SessionAuthorizedEvent.InputTuple,
+      SessionAuthorizedEvent.OutputTuple,
+      SessionAuthorizedEvent.OutputObject
+    >;
+
+    "SessionRevoked(address,address)": TypedContractEvent<
+      SessionRevokedEvent.InputTuple,
+      SessionRevokedEvent.OutputTuple,
+      SessionRevokedEvent.OutputObject
+    >;
+    SessionRevoked: TypedContractEvent<
+      SessionRevokedEvent.InputTuple,
+      SessionRevokedEvent.OutputTuple,
+      SessionRevokedEvent.OutputObject
+    >;
   };
 }
@@ -137,6 +137,11 @@ const _abi = [
         name: "result",
         type: "uint128",
       },
+      {
+        internalType: "uint256",
+        name: "score",
+        type: "uint256",
+      },
     ],
     stateMutability: "pure",
     type: "function",
@@ -166,6 +171,11 @@ const _abi = [
         name: "result",
         type: "uint128",
       },
+      {
+        internalType: "uint256",
+        name: "score",
+        type: "uint256",
+      },
     ],
     stateMutability: "pure",
     type: "function",
@@ -255,7 +265,7 @@ const _abi = [
 ] as const;
 
 const _bytecode =
-  "0x610d15610039600b82828239805160001a607314602c57634e487b7160e01b600052600060045260246000fd5b30600052607381538281f3fe73000000000000000000000000000000000000000030146080604052600436106100b35760003560e01c806354c30fd91161007b57806354c30fd91461011d57806364cd1595146101305780637e8dbaf6146101385780638def51a114610163578063918a2a65146101765780639aff28fe1461018957600080fd5b806301df1995146100b85780630be27a04146100d75780631af4f970146100fa57806324f4ec51146101025780632b2f6a121461010a575b600080fd5b6100c0600181565b60405160ff90911681526020015b60405180910390f35b6100ea6100e53660046109ed565b61019c565b60405190151581526020016100ce565b6100c0600381565b6100c0600081565b6100ea610118366004610a38565b6101c6565b6100c061012b366004610a5a565b61025b565b6100c0600281565b61014b610146366004610a8d565b61028e565b6040516001600160801b0390911681526020016100ce565b61014b610171366004610ab6565b61033d565b61014b610184366004610af9565b610407565b61014b610197366004610b33565b61045b565b6000826001600160801b03166101b386868561045b565b6001600160801b03161495945050505050565b60006f030303030303030303030303030303036ffcfcfcfcfcfcfcfcfcfcfcfcfcfcfcfc83161515806102105750600183901c83166f7fffffffffffffffffffffffffffffff1615155b1561021e5750600092915050565b60005b6001600160801b038416156102515761023b600185610b86565b909316928061024981610ba5565b915050610221565b6002149392505050565b600061026882600f610bbe565b610273906008610bd7565b60ff16836001600160801b0316901c60ff1690505b92915050565b600080826040516020016102a491815260200190565b60408051601f198184030181529190528051602090910120905060006102cb601083610c10565b60109290921c91905060006102e1600f84610c10565b90508160ff168160ff16106102fe57806102fa81610c24565b9150505b6103346103268583605a610313606489610c10565b1161031f576001610407565b6002610407565b83605a610313606488610c10565b95945050505050565b60008080846103505763ffffffff61035f565b6cff000000ff000000ff000000ff5b6001600160681b0316905060005b60048110156103fd57600061038588841688886105f5565b90506000610394828989610738565b9050846001600160801b0316816001600160801b0316901b86179550876103bc5760206103bf565b60085b6103cc9060ff1686610c43565b9450876103da5760206103dd565b60085b60ff16896001600160801b0316901c98505050808060010191505061036d565b5050509392505050565b60008061041584600f610bbe565b610420906008610bd7565b60ff9081161b9050600061043585600f610bbe565b610440906008610bd7565b91199590951660ff938416919093161b919091179392505050565b600060048360ff16106104a35760405162461bcd60e51b815260206004820152600b60248201526a135bdd99525b9d985b1a5960aa1b60448201526064015b60405180910390fd5b6104c384600160ff861611156104ba600287610c62565b60ff161561033d565b9050806001600160801b0316846001600160801b0316036105145760405162461bcd60e51b815260206004820152600b60248201526a135bdd99525b9d985b1a5960aa1b604482015260640161049a565b60ff60781b600080805b6001600160801b03841615610594578385166001600160801b0316600003610571578161054a81610c84565b9250610557906008610ca6565b6001600160801b0316816001600160801b0316901b831792505b6008846001600160801b0316901c9350808061058c90610c84565b91505061051e565b6001600160801b038216156105ea5760006105b86001600160801b03841688610c10565b6105c3906008610cc8565b6001600160801b038516901c60ff1690506105e68682605a61031360648c610c10565b9550505b505050509392505050565b60008083610604576008610607565b60205b60ff16905060008361061a5760ff61062f565b846106295763ff00000061062f565b60ff60601b5b6001600160681b0316905060008561064b5763ffffffff61065a565b6cff000000ff000000ff000000ff5b6001600160681b031690505b6001600160801b0382161580159061068657506001600160801b03871615155b156103fd575b60008188166001600160801b03161180156106b057506001600160801b0387831616155b156106f357846106d557826001600160801b0316876001600160801b0316901c6106ec565b826001600160801b0316876001600160801b0316901b5b965061068c565b818716841793508461071a57826001600160801b0316826001600160801b0316901b610731565b826001600160801b0316826001600160801b0316901c5b9150610666565b6000808361074757600861074a565b60205b60ff16905060008361075d5760ff610772565b8461076c5763ff000000610772565b60ff60601b5b6001600160681b0316905060008561078e5763ffffffff61079d565b6cff000000ff000000ff000000ff5b6001600160681b031690506000856107ca57836001600160801b0316836001600160801b0316901b6107e1565b836001600160801b0316836001600160801b0316901c5b90506000866107f1576001610806565b87610800576301000000610806565b600160601b5b6001600160681b031690505b6001600160801b03838a1616156109b45760008761084757856001600160801b0316838b166001600160801b0316901c610860565b856001600160801b0316838b166001600160801b0316901b5b9050806001600160801b0316858b166001600160801b0316036108c3578761089d57856001600160801b03168a6001600160801b0316901c6108b4565b856001600160801b03168a6001600160801b0316901b5b99506108c0828b610c43565b99505b848a1687179650876108ea57856001600160801b0316856001600160801b0316901b610901565b856001600160801b0316856001600160801b0316901c5b94508761092357856001600160801b0316836001600160801b0316901b61093a565b856001600160801b0316836001600160801b0316901c5b92508761095c57856001600160801b0316826001600160801b0316901b610973565b856001600160801b0316826001600160801b0316901c5b91508761099557856001600160801b0316846001600160801b0316901b6109ac565b856001600160801b0316846001600160801b0316901c5b935050610812565b50505050509392505050565b80356001600160801b03811681146109d757600080fd5b919050565b803560ff811681146109d757600080fd5b60008060008060808587031215610a0357600080fd5b610a0c856109c0565b9350610a1a602086016109dc565b9250610a28604086016109c0565b9396929550929360600135925050565b600060208284031215610a4a57600080fd5b610a53826109c0565b9392505050565b60008060408385031215610a6d57600080fd5b610a76836109c0565b9150610a84602084016109dc565b90509250929050565b600060208284031215610a9f57600080fd5b5035919050565b803580151581146109d757600080fd5b600080600060608486031215610acb57600080fd5b610ad4846109c0565b9250610ae260208501610aa6565b9150610af060408501610aa6565b90509250925092565b600080600060608486031215610b0e57600080fd5b610b17846109c0565b9250610b25602085016109dc565b9150610af0604085016109dc565b600080600060608486031215610b4857600080fd5b610b51846109c0565b9250610b5f602085016109dc565b929592945050506040919091013590565b634e487b7160e01b600052601160045260246000fd5b6001600160801b03828116828216039081111561028857610288610b70565b600060018201610bb757610bb7610b70565b5060010190565b60ff828116828216039081111561028857610288610b70565b60ff8181168382160290811690818114610bf357610bf3610b70565b5092915050565b634e487b7160e01b600052601260045260246000fd5b600082610c1f57610c1f610bfa565b500690565b600060ff821660ff8103610c3a57610c3a610b70565b60010192915050565b6001600160801b03818116838216019081111561028857610288610b70565b600060ff831680610c7557610c75610bfa565b8060ff84160691505092915050565b60006001600160801b0382166001600160801b038103610c3a57610c3a610b70565b6001600160801b038181168382160290811690818114610bf357610bf3610b70565b808202811582820484141761028857610288610b7056fea264697066735822122047fad3f868fa8310c26e0e6a0cc22d203f2726b817122fbf094d7dd3f8af4f9264736f6c634300081c0033";
+  "0x610dbb610039600b82828239805160001a607314602c57634e487b7160e01b600052600060045260246000fd5b30600052607381538281f3fe73000000000000000000000000000000000000000030146080604052600436106100b35760003560e01c806354c30fd91161007b57806354c30fd91461011d57806364cd1595146101305780637e8dbaf6146101385780638def51a114610163578063918a2a65146101955780639aff28fe146101a857600080fd5b806301df1995146100b85780630be27a04146100d75780631af4f970146100fa57806324f4ec51146101025780632b2f6a121461010a575b600080fd5b6100c0600181565b60405160ff90911681526020015b60405180910390f35b6100ea6100e5366004610a52565b6101bb565b60405190151581526020016100ce565b6100c0600381565b6100c0600081565b6100ea610118366004610a9d565b6101e4565b6100c061012b366004610abf565b610279565b6100c0600281565b61014b610146366004610af2565b6102ac565b6040516001600160801b0390911681526020016100ce565b610176610171366004610b1b565b61035b565b604080516001600160801b0390931683526020830191909152016100ce565b61014b6101a3366004610b5e565b61043a565b6101766101b6366004610b98565b61048e565b6000806101c986868561048e565b506001600160801b0390811690851614915050949350505050565b60006f030303030303030303030303030303036ffcfcfcfcfcfcfcfcfcfcfcfcfcfcfcfc831615158061022e5750600183901c83166f7fffffffffffffffffffffffffffffff1615155b1561023c5750600092915050565b60005b6001600160801b0384161561026f57610259600185610beb565b909316928061026781610c0a565b91505061023f565b6002149392505050565b600061028682600f610c23565b610291906008610c3c565b60ff16836001600160801b0316901c60ff1690505b92915050565b600080826040516020016102c291815260200190565b60408051601f198184030181529190528051602090910120905060006102e9601083610c75565b60109290921c91905060006102ff600f84610c75565b90508160ff168160ff161061031c578061031881610c89565b9150505b6103526103448583605a610331606489610c75565b1161033d57600161043a565b600261043a565b83605a610331606488610c75565b95945050505050565b600080600080856103705763ffffffff61037f565b6cff000000ff000000ff000000ff5b6001600160681b0316905060005b600481101561042f5760006103a58984168989610627565b90506000806103b5838b8b610774565b91509150856001600160801b0316826001600160801b0316901b8817975080876103df9190610ca8565b9650896103ed5760206103f0565b60085b6103fd9060ff1687610cbb565b95508961040b57602061040e565b60085b60ff168b6001600160801b0316901c9a50505050808060010191505061038d565b505050935093915050565b60008061044884600f610c23565b610453906008610c3c565b60ff9081161b9050600061046885600f610c23565b610473906008610c3c565b91199590951660ff938416919093161b919091179392505050565b60008060048460ff16106104d75760405162461bcd60e51b815260206004820152600b60248201526a135bdd99525b9d985b1a5960aa1b60448201526064015b60405180910390fd5b6104f785600160ff871611156104ee600288610cda565b60ff161561035b565b90925090506001600160801b03808316908616036105455760405162461bcd60e51b815260206004820152600b60248201526a135bdd99525b9d985b1a5960aa1b60448201526064016104ce565b60ff60781b600080805b6001600160801b038416156105c5578386166001600160801b03166000036105a2578161057b81610cfc565b9250610588906008610d1e565b6001600160801b0316816001600160801b0316901b831792505b6008846001600160801b0316901c935080806105bd90610cfc565b91505061054f565b6001600160801b0382161561061b5760006105e96001600160801b03841689610c75565b6105f4906008610d40565b6001600160801b038516901c60ff1690506106178782605a61033160648d610c75565b9650505b50505050935093915050565b60008083610636576008610639565b60205b60ff16905060008361064c5760ff610661565b8461065b5763ff000000610661565b60ff60601b5b6001600160681b0316905060008561067d5763ffffffff61068c565b6cff000000ff000000ff000000ff5b6001600160681b031690505b6001600160801b038216158015906106b857506001600160801b03871615155b1561076a575b60008188166001600160801b03161180156106e257506001600160801b0387831616155b15610725578461070757826001600160801b0316876001600160801b0316901c61071e565b826001600160801b0316876001600160801b0316901b5b96506106be565b818716841793508461074c57826001600160801b0316826001600160801b0316901b610763565b826001600160801b0316826001600160801b0316901c5b9150610698565b5050509392505050565b600080600084610785576008610788565b60205b60ff16905060008461079b5760ff6107b0565b856107aa5763ff0000006107b0565b60ff60601b5b6001600160681b031690506000866107cc5763ffffffff6107db565b6cff000000ff000000ff000000ff5b6001600160681b0316905060008661080857836001600160801b0316836001600160801b0316901b61081f565b836001600160801b0316836001600160801b0316901c5b905060008761082f576001610844565b8861083e576301000000610844565b600160601b5b6001600160681b031690505b6001600160801b03838b161615610a185760008861088557856001600160801b0316838c166001600160801b0316901c61089e565b856001600160801b0316838c166001600160801b0316901b5b9050806001600160801b0316858c166001600160801b03160361092757886108db57856001600160801b03168b6001600160801b0316901c6108f2565b856001600160801b03168b6001600160801b0316901b5b9a506108fe828c610cbb565b9a5061090c82868d16610d57565b6001600160801b03166001901b876109249190610ca8565b96505b848b16881797508861094e57856001600160801b0316856001600160801b0316901b610965565b856001600160801b0316856001600160801b0316901c5b94508861098757856001600160801b0316836001600160801b0316901b61099e565b856001600160801b0316836001600160801b0316901c5b9250886109c057856001600160801b0316826001600160801b0316901b6109d7565b856001600160801b0316826001600160801b0316901c5b9150886109f957856001600160801b0316846001600160801b0316901b610a10565b856001600160801b0316846001600160801b0316901c5b935050610850565b5050505050935093915050565b80356001600160801b0381168114610a3c57600080fd5b919050565b803560ff81168114610a3c57600080fd5b60008060008060808587031215610a6857600080fd5b610a7185610a25565b9350610a7f60208601610a41565b9250610a8d60408601610a25565b9396929550929360600135925050565b600060208284031215610aaf57600080fd5b610ab882610a25565b9392505050565b60008060408385031215610ad257600080fd5b610adb83610a25565b9150610ae960208401610a41565b90509250929050565b600060208284031215610b0457600080fd5b5035919050565b80358015158114610a3c57600080fd5b600080600060608486031215610b3057600080fd5b610b3984610a25565b9250610b4760208501610b0b565b9150610b5560408501610b0b565b90509250925092565b600080600060608486031215610b7357600080fd5b610b7c84610a25565b9250610b8a60208501610a41565b9150610b5560408501610a41565b600080600060608486031215610bad57600080fd5b610bb684610a25565b9250610bc460208501610a41565b929592945050506040919091013590565b634e487b7160e01b600052601160045260246000fd5b6001600160801b0382811682821603908111156102a6576102a6610bd5565b600060018201610c1c57610c1c610bd5565b5060010190565b60ff82811682821603908111156102a6576102a6610bd5565b60ff8181168382160290811690818114610c5857610c58610bd5565b5092915050565b634e487b7160e01b600052601260045260246000fd5b600082610c8457610c84610c5f565b500690565b600060ff821660ff8103610c9f57610c9f610bd5565b60010192915050565b808201808211156102a6576102a6610bd5565b6001600160801b0381811683821601908111156102a6576102a6610bd5565b600060ff831680610ced57610ced610c5f565b8060ff84160691505092915050565b60006001600160801b0382166001600160801b038103610c9f57610c9f610bd5565b6001600160801b038181168382160290811690818114610c5857610c58610bd5565b80820281158282048414176102a6576102a6610bd5565b60006001600160801b03831680610d7057610d70610c5f565b806001600160801b038416049150509291505056fea2646970667358221220e00b74cda5a2b25d418714fad9112782cc35daa11926d06c6ddd78d80caa70e164736f6c634300081c0033";
 
 type BoardConstructorParams =
   | [signer?: Signer]
@@ -12,6 +12,11 @@ import type { NonPayableOverrides } from "../common";
 import type { MEGAETH2048, MEGAETH2048Interface } from "../MEGAETH2048";
 
 const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
   {
     inputs: [],
     name: "GameBoardInvalid",
@@ -32,6 +37,16 @@ const _abi = [
     name: "GamePlayerInvalid",
     type: "error",
   },
+  {
+    inputs: [],
+    name: "SessionInvalid",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "SignatureInvalid",
+    type: "error",
+  },
   {
     anonymous: false,
     inputs: [
@@ -115,10 +130,141 @@ const _abi = [
         name: "result",
         type: "uint256",
       },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "score",
+        type: "uint256",
+      },
     ],
     name: "NewMove",
     type: "event",
   },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sessionKey",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "expiry",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "moveCap",
+        type: "uint32",
+      },
+    ],
+    name: "SessionAuthorized",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sessionKey",
+        type: "address",
+      },
+    ],
+    name: "SessionRevoked",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "DOMAIN_SEPARATOR",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PLAY_TYPEHASH",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "START_GAME_TYPEHASH",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "UNLIMITED_MOVES",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sessionKey",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "expiry",
+        type: "uint64",
+      },
+      {
+        internalType: "uint32",
+        name: "moveCap",
+        type: "uint32",
+      },
+    ],
+    name: "authorizeSession",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -186,6 +332,25 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "gameId",
+        type: "bytes32",
+      },
+    ],
+    name: "getScore",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -272,6 +437,25 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "nonces",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "nonce",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -295,6 +479,104 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "gameId",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint8[]",
+        name: "moves",
+        type: "uint8[]",
+      },
+      {
+        internalType: "uint128[]",
+        name: "resultBoards",
+        type: "uint128[]",
+      },
+    ],
+    name: "playBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "gameId",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint8[]",
+        name: "moves",
+        type: "uint8[]",
+      },
+      {
+        internalType: "uint128[]",
+        name: "resultBoards",
+        type: "uint128[]",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "signature",
+        type: "bytes",
+      },
+    ],
+    name: "playBySig",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sessionKey",
+        type: "address",
+      },
+    ],
+    name: "revokeSession",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sessionKey",
+        type: "address",
+      },
+    ],
+    name: "sessions",
+    outputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "expiry",
+        type: "uint64",
+      },
+      {
+        internalType: "uint32",
+        name: "movesLeft",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -318,6 +600,39 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "gameId",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint128[4]",
+        name: "boards",
+        type: "uint128[4]",
+      },
+      {
+        internalType: "uint8[3]",
+        name: "moves",
+        type: "uint8[3]",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "signature",
+        type: "bytes",
+      },
+    ],
+    name: "startGameBySig",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -334,9 +649,14 @@ const _abi = [
         type: "uint8",
       },
       {
-        internalType: "uint120",
+        internalType: "uint88",
         name: "nextMove",
-        type: "uint120",
+        type: "uint88",
+      },
+      {
+        internalType: "uint32",
+        name: "score",
+        type: "uint32",
       },
       {
         internalType: "uint128",
@@ -350,7 +670,7 @@ const _abi = [
 ] as const;
 
 const _bytecode =
-  "0x6080604052348015600f57600080fd5b50610e548061001f6000396000f3fe608060405234801561001057600080fd5b506004361061009e5760003560e01c80639a987475116100665780639a987475146101b0578063ac88036c146101f6578063bb9df3071461023e578063d878cfbc14610251578063e51b891f1461028b57600080fd5b80631b306ea5146100a357806325c09963146100e657806361d585da146100fb578063658fec9e1461016f57806379cbd23314610182575b600080fd5b6100d16100b1366004610b89565b600260209081526000928352604080842090915290825290205460ff1681565b60405190151581526020015b60405180910390f35b6100f96100f4366004610bd9565b6102ac565b005b61013f610109366004610c17565b60006020819052908152604090205460ff81169061010081046001600160781b031690600160801b90046001600160801b031683565b6040805160ff90941684526001600160781b0390921660208401526001600160801b0316908201526060016100dd565b6100d161017d366004610b89565b610576565b6101a2610190366004610c17565b60016020526000908152604090205481565b6040519081526020016100dd565b6101de6101be366004610c17565b60009081526020819052604090205461010090046001600160781b031690565b6040516001600160781b0390911681526020016100dd565b610226610204366004610c17565b600090815260208190526040902054600160801b90046001600160801b031690565b6040516001600160801b0390911681526020016100dd565b6100f961024c366004610c30565b61059a565b6101a261025f366004610b89565b604080516020808201949094528082019290925280518083038201815260609092019052805191012090565b61029e610299366004610c17565b610a57565b6040516100dd929190610c7d565b3383606081901c82146102fa5760405162461bcd60e51b815260206004820152601160248201527011d85b59541b185e595c925b9d985b1a59607a1b60448201526064015b60405180910390fd5b60008581526020818152604091829020825160608082018552915460ff8116825261010081046001600160781b0316828501819052600160801b9091046001600160801b031682860181905285519485018b9052948401529273__$3bdcb62b59719fa87ec18408dc3f85ab1f$__92630be27a0492899189910160408051808303601f1901815290829052805160209091012060e086901b6001600160e01b03191682526001600160801b03948516600483015260ff9093166024820152921660448301526064820152608401602060405180830381865af41580156103e4573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906104089190610cba565b6104245760405162461bcd60e51b81526004016102f190610ce3565b600081602001516001600160781b0316905060405180606001604052808760ff1681526020018360200151600161045b9190610d23565b6001600160781b0390811682526001600160801b0380891660209384015260008b815280845260408082208651815488880151988401518616600160801b0298909616610100026001600160801b031990961660ff9091161794909417909216949094179091556002825280832084845290915290819020805460ff1916600117905551879033907f14fe4197a69dbcc73d79fcfd259bd1f097640dd2c2fe016ff232c416e17ce84290610529908a908a9060ff9290921682526001600160801b0316602082015260400190565b60405180910390a360408051828152436020820152889133917faed26e1cc9340165cad07fe9b04a60123395a7d8a6ca901a7400f598c9c03ab6910160405180910390a350505050505050565b600082815260026020908152604080832084845290915290205460ff165b92915050565b3383606081901c82146105e35760405162461bcd60e51b815260206004820152601160248201527011d85b59541b185e595c925b9d985b1a59607a1b60448201526064016102f1565b600085815260208190526040902054600160801b90046001600160801b03161561063c5760405162461bcd60e51b815260206004820152600a60248201526911d85b595259155cd95960b21b60448201526064016102f1565b60008460405160200161064f9190610d42565b60408051601f19818403018152918152815160209283012060008181526001909352912054909150156106b15760405162461bcd60e51b815260206004820152600a60248201526911d85b59541b185e595960b21b60448201526064016102f1565b73__$3bdcb62b59719fa87ec18408dc3f85ab1f$__632b2f6a126106d86020880188610d9d565b6040516001600160e01b031960e084901b1681526001600160801b039091166004820152602401602060405180830381865af415801561071c573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906107409190610cba565b61075c5760405162461bcd60e51b81526004016102f190610ce3565b60015b60048110156108d15773__$3bdcb62b59719fa87ec18408dc3f85ab1f$__630be27a048761078e600185610db8565b6004811061079e5761079e610d87565b6020020160208101906107b19190610d9d565b876107bd600186610db8565b600381106107cd576107cd610d87565b6020020160208101906107e09190610dcb565b8985600481106107f2576107f2610d87565b6020020160208101906108059190610d9d565b60408051602081018e905290810187905260600160408051808303601f1901815290829052805160209091012060e086901b6001600160e01b03191682526001600160801b03948516600483015260ff9093166024820152921660448301526064820152608401602060405180830381865af4158015610889573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906108ad9190610cba565b6108c95760405162461bcd60e51b81526004016102f190610ce3565b60010161075f565b5060008181526001602081905260409091208790555b600381116109255760008781526002602090815260408083208484529091529020805460ff191660011790558061091d81610de8565b9150506108e7565b5060408051606080820183529091829161094491908801908801610dcb565b60ff168152600460208201526040016109636080880160608901610d9d565b6001600160801b0390811690915260008881526020818152604091829020845181549286015195909301518416600160801b026001600160781b03909516610100026001600160801b031990921660ff909316929092171790911691909117905585337f3d6c02e74ba05913874ba8d477497510df840bf93bfa5a2a8d8943766678a0e36109f76080890160608a01610d9d565b6040516001600160801b03909116815260200160405180910390a36040805160038152436020820152879133917faed26e1cc9340165cad07fe9b04a60123395a7d8a6ca901a7400f598c9c03ab6910160405180910390a3505050505050565b610a5f610b6a565b600082815260208190526040812054600160801b90046001600160801b0316815b60108160ff161015610b3b576040516354c30fd960e01b81526001600160801b038316600482015260ff8216602482015273__$3bdcb62b59719fa87ec18408dc3f85ab1f$__906354c30fd990604401602060405180830381865af4158015610aed573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190610b119190610e01565b848260ff1660108110610b2657610b26610d87565b60ff9092166020929092020152600101610a80565b5060008481526020819052604090205461010090046001600160781b03166001600160781b0316915050915091565b6040518061020001604052806010906020820280368337509192915050565b60008060408385031215610b9c57600080fd5b50508035926020909101359150565b60ff81168114610bba57600080fd5b50565b80356001600160801b0381168114610bd457600080fd5b919050565b600080600060608486031215610bee57600080fd5b833592506020840135610c0081610bab565b9150610c0e60408501610bbd565b90509250925092565b600060208284031215610c2957600080fd5b5035919050565b60008060006101008486031215610c4657600080fd5b8335925060a0840185811115610c5b57600080fd5b6020850192508561010086011115610c7257600080fd5b809150509250925092565b6102208101818460005b6010811015610ca957815160ff16835260209283019290910190600101610c87565b505050826102008301529392505050565b600060208284031215610ccc57600080fd5b81518015158114610cdc57600080fd5b9392505050565b60208082526010908201526f11d85b59509bd85c99125b9d985b1a5960821b604082015260600190565b634e487b7160e01b600052601160045260246000fd5b6001600160781b03818116838216019081111561059457610594610d0d565b60008183825b6004811015610d78576001600160801b03610d6283610bbd565b1683526020928301929190910190600101610d48565b50505060808201905092915050565b634e487b7160e01b600052603260045260246000fd5b600060208284031215610daf57600080fd5b610cdc82610bbd565b8181038181111561059457610594610d0d565b600060208284031215610ddd57600080fd5b8135610cdc81610bab565b600060018201610dfa57610dfa610d0d565b5060010190565b600060208284031215610e1357600080fd5b8151610cdc81610bab56fea26469706673582212203e2f7126975662490ca1f06c60740657bbc4024ad6777a263f3d0d0afea553b264736f6c634300081c0033";
+  "0x60c060405234801561001057600080fd5b504660a0818152604080517f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f6020808301919091527ed632e1f1dde0cfe31d0cfb10d15f823390ad07cce43c3ae3e0f6bfe0091a83828401527fc89efdaa54c0f20c7adf612882df0950f5a951637e0307cdcb4c672f298b8bc66060830152608082019490945230818401528151808203909301835260c0019052805191012060805260805160a0516121d66100d860003960006107cb0152600061089f01526121d66000f3fe6080604052600436106101355760003560e01c806379cbd233116100ab578063a4e7089f1161006f578063a4e7089f146104e6578063ac88036c14610506578063bb9df3071461055b578063cf854d431461057b578063d878cfbc1461059b578063e51b891f146105e257600080fd5b806379cbd233146103d25780637ba53285146103ff5780637ecebe00146104395780638ac93649146104665780639a9874751461049357600080fd5b80633644e515116100fd5780633644e51514610242578063431a1b97146102575780634b2b35ee146102e057806361d585da146102f3578063658fec9e1461039257806368f56a67146103b257600080fd5b80630b6ff3021461013a5780631b306ea5146101815780631fa5d6a4146101cc57806325c09963146101ee5780632b50c41f1461020e575b600080fd5b34801561014657600080fd5b5061016e7f8b16934a96e1aab2c6f2f2afa21d83fd7160c93fc9439bfd5e605dd78e32d24581565b6040519081526020015b60405180910390f35b34801561018d57600080fd5b506101bc61019c366004611a3f565b600260209081526000928352604080842090915290825290205460ff1681565b6040519015158152602001610178565b3480156101d857600080fd5b506101ec6101e7366004611a7d565b610610565b005b3480156101fa57600080fd5b506101ec610209366004611ac6565b6106c4565b34801561021a57600080fd5b5061016e7fd83a08194530c44838f97502e2f76a2ca00d9c87a314778cadf39507f141cc2281565b34801561024e57600080fd5b5061016e6107c7565b34801561026357600080fd5b506102ad610272366004611a7d565b6003602052600090815260409020546001600160a01b03811690600160a01b81046001600160401b031690600160e01b900463ffffffff1683565b604080516001600160a01b0390941684526001600160401b03909216602084015263ffffffff1690820152606001610178565b6101ec6102ee366004611b08565b6108c1565b3480156102ff57600080fd5b5061035261030e366004611b5b565b60006020819052908152604090205460ff81169061010081046001600160581b031690600160601b810463ffffffff1690600160801b90046001600160801b031684565b6040805160ff90951685526001600160581b03909316602085015263ffffffff909116918301919091526001600160801b03166060820152608001610178565b34801561039e57600080fd5b506101bc6103ad366004611a3f565b610a98565b3480156103be57600080fd5b506101ec6103cd366004611bde565b610abc565b3480156103de57600080fd5b5061016e6103ed366004611b5b565b60016020526000908152604090205481565b34801561040b57600080fd5b5061016e61041a366004611b5b565b600090815260208190526040902054600160601b900463ffffffff1690565b34801561044557600080fd5b5061016e610454366004611a7d565b60046020526000908152604090205481565b34801561047257600080fd5b5061047e63ffffffff81565b60405163ffffffff9091168152602001610178565b34801561049f57600080fd5b506104ce6104ae366004611b5b565b60009081526020819052604090205461010090046001600160581b031690565b6040516001600160781b039091168152602001610178565b3480156104f257600080fd5b506101ec610501366004611c9e565b610bd8565b34801561051257600080fd5b50610543610521366004611b5b565b600090815260208190526040902054600160801b90046001600160801b031690565b6040516001600160801b039091168152602001610178565b34801561056757600080fd5b506101ec610576366004611d1b565b610bfe565b34801561058757600080fd5b506101ec610596366004611d5a565b610c1a565b3480156105a757600080fd5b5061016e6105b6366004611a3f565b604080516020808201949094528082019290925280518083038201815260609092019052805191012090565b3480156105ee57600080fd5b506106026105fd366004611b5b565b610d3d565b604051610178929190611e10565b6001600160a01b038082166000908152600360205260409020541680158015906106545750336001600160a01b03821614806106545750336001600160a01b038316145b6106795760405162461bcd60e51b815260040161067090611e4d565b60405180910390fd5b6001600160a01b038083166000818152600360205260408082208290555191928416917f9a20fd73f3c4985be44f081964b55d63f69ed94995474740c82bfbff9d6ab5c49190a35050565b8260016106db336106d58460601c90565b83610e50565b600085815260208181526040918290208251608081018452905460ff8116825261010081046001600160581b031692820192909252600160601b820463ffffffff1692810192909252600160801b90046001600160801b031660608201526107469086908686610e79565b600095865260208681526040968790208251815492840151988401516060909401516001600160801b03908116600160801b0263ffffffff909516600160601b02166001600160601b036001600160581b03909a16610100026001600160601b031990941660ff909216919091179290921797909716171790945550505050565b60007f0000000000000000000000000000000000000000000000000000000000000000461461089c57610897604080517f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f60208201527ed632e1f1dde0cfe31d0cfb10d15f823390ad07cce43c3ae3e0f6bfe0091a83918101919091527fc89efdaa54c0f20c7adf612882df0950f5a951637e0307cdcb4c672f298b8bc660608201524660808201523060a082015260009060c00160405160208183030381529060405280519060200120905090565b905090565b507f000000000000000000000000000000000000000000000000000000000000000090565b42826001600160401b0316116108e95760405162461bcd60e51b815260040161067090611e78565b6001600160a01b038084166000908152600360205260409020541680158061091957506001600160a01b03811633145b6109355760405162461bcd60e51b815260040161067090611e4d565b600063ffffffff831615610949578261094f565b63ffffffff5b60408051606081018252338082526001600160401b03888116602080850182815263ffffffff8881168789019081526001600160a01b038f81166000818152600387528b902099518a54955193518516600160e01b026001600160e01b0394909916600160a01b026001600160e01b0319909616921691909117939093171694909417909555855191825291891691810191909152939450909290917f7e15e4eb3f50f4315fea71986cb93e54a8d110de93fbd75a464ecb005e9b4a94910160405180910390a33415610a91576000856001600160a01b03163460405160006040518083038185875af1925050503d8060008114610a69576040519150601f19603f3d011682016040523d82523d6000602084013e610a6e565b606091505b5050905080610a8f5760405162461bcd60e51b815260040161067090611e78565b505b5050505050565b600082815260026020908152604080832084845290915290205460ff165b92915050565b6000610ac88760601c90565b905060007fd83a08194530c44838f97502e2f76a2ca00d9c87a314778cadf39507f141cc228888604051602001610aff9190611ea0565b6040516020818303038152906040528051906020012088604051602001610b269190611ee7565b60408051601f1981840301815291815281516020928301206001600160a01b0388166000908152600490935290822080549192610b6283611f3e565b909155506040805160208101969096528501939093526060840191909152608083015260a082015260c0810186905260e001604051602081830303815290604052805190602001209050610bc3610bbb8287878761110f565b836003610e50565b610bce8888886112b7565b5050505050505050565b8483610be8336106d58460601c90565b610bf587878787876117b0565b50505050505050565b826003610c0f336106d58460601c90565b610a918585856112b7565b6000610c268960601c90565b905060007f8b16934a96e1aab2c6f2f2afa21d83fd7160c93fc9439bfd5e605dd78e32d2458a8a8a604051602001610c5f929190611f57565b604051602081830303815290604052805190602001208989604051602001610c88929190611f93565b60408051601f1981840301815291815281516020928301206001600160a01b0388166000908152600490935290822080549192610cc483611f3e565b909155506040805160208101969096528501939093526060840191909152608083015260a082015260c0810186905260e001604051602081830303815290604052805190602001209050610d24610d1d8287878761110f565b838a610e50565b610d318a8a8a8a8a6117b0565b50505050505050505050565b610d45611a20565b600082815260208190526040812054600160801b90046001600160801b0316815b60108160ff161015610e21576040516354c30fd960e01b81526001600160801b038316600482015260ff8216602482015273__$3bdcb62b59719fa87ec18408dc3f85ab1f$__906354c30fd990604401602060405180830381865af4158015610dd3573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190610df79190611fca565b848260ff1660108110610e0c57610e0c611fe7565b60ff9092166020929092020152600101610d66565b5060008481526020819052604090205461010090046001600160581b03166001600160781b0316915050915091565b816001600160a01b0316836001600160a01b031614610e7457610e74838383611926565b505050565b60408051608081018252600080825260208201819052918101829052606081019190915260008073__$3bdcb62b59719fa87ec18408dc3f85ab1f$__639aff28fe8760600151878a8a602001516001600160581b0316604051602001610ee9929190918252602082015260400190565b60408051808303601f1901815290829052805160209091012060e085901b6001600160e01b03191682526001600160801b03909316600482015260ff909116602482015260448101919091526064016040805180830381865af4158015610f54573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190610f789190611ffd565b91509150836001600160801b0316826001600160801b031614610fad5760405162461bcd60e51b81526004016106709061202b565b600086602001516001600160581b031690506000828860400151610fd19190612055565b60008a81526002602090815260408083208684529091529020805460ff191660011790559050886110028160601c90565b6040805160ff8b1681526001600160801b038a16602082015263ffffffff85168183015290516001600160a01b0392909216917faa71acfa30d0da369c78bbbdd7fcb9a8835748c5e03d0202166cdc01569932c49181900360600190a38861106a8a60601c90565b6001600160a01b03167faed26e1cc9340165cad07fe9b04a60123395a7d8a6ca901a7400f598c9c03ab684436040516110ad929190918252602082015260400190565b60405180910390a360405180608001604052808860ff168152602001896020015160016110da9190612071565b6001600160581b031681526020018263ffffffff168152602001876001600160801b0316815250945050505050949350505050565b6000834211156111315760405162461bcd60e51b815260040161067090612090565b604182146111515760405162461bcd60e51b815260040161067090612090565b600061116060208285876120ba565b611169916120e4565b9050600061117b6040602086886120ba565b611184916120e4565b905060008585604081811061119b5761119b611fe7565b919091013560f81c9150507f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a08211156111e65760405162461bcd60e51b815260040161067090612090565b60006111f06107c7565b60405161190160f01b60208201526022810191909152604281018a905260620160408051601f1981840301815282825280516020918201206000845290830180835281905260ff8516918301919091526060820186905260808201859052915060019060a0016020604051602081039080840390855afa158015611278573d6000803e3d6000fd5b5050604051601f1901519550506001600160a01b0385166112ab5760405162461bcd60e51b815260040161067090612090565b50505050949350505050565b600083815260208190526040902054600160801b90046001600160801b0316156113105760405162461bcd60e51b815260206004820152600a60248201526911d85b595259155cd95960b21b6044820152606401610670565b6000826040516020016113239190611ea0565b60408051601f19818403018152918152815160209283012060008181526001909352912054909150156113855760405162461bcd60e51b815260206004820152600a60248201526911d85b59541b185e595960b21b6044820152606401610670565b73__$3bdcb62b59719fa87ec18408dc3f85ab1f$__632b2f6a126113ac6020860186612102565b6040516001600160e01b031960e084901b1681526001600160801b039091166004820152602401602060405180830381865af41580156113f0573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190611414919061211f565b6114305760405162461bcd60e51b81526004016106709061202b565b600060015b60048110156115cb5760008073__$3bdcb62b59719fa87ec18408dc3f85ab1f$__639aff28fe88611467600187612141565b6004811061147757611477611fe7565b60200201602081019061148a9190612102565b88611496600188612141565b600381106114a6576114a6611fe7565b6020020160208101906114b99190612154565b60408051602081018e905290810188905260600160408051808303601f1901815290829052805160209091012060e085901b6001600160e01b03191682526001600160801b03909316600482015260ff909116602482015260448101919091526064016040805180830381865af4158015611538573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061155c9190611ffd565b9150915086836004811061157257611572611fe7565b6020020160208101906115859190612102565b6001600160801b0316826001600160801b0316146115b55760405162461bcd60e51b81526004016106709061202b565b6115bf8185612171565b93505050600101611435565b5060008281526001602081905260409091208690555b6003811161161f5760008681526002602090815260408083208484529091529020805460ff191660011790558061161781611f3e565b9150506115e1565b506040805160808101825290819061163d9060608701908701612154565b60ff1681526004602082015263ffffffff8316604082015260609081019061166b9060808801908801612102565b6001600160801b03908116909152600087815260208181526040918290208451815492860151938601516060909601518516600160801b0263ffffffff909616600160601b029094166001600160601b036001600160581b03909416610100026001600160601b031990931660ff90951694909417919091179190911691909117919091179055846116fd8160601c90565b6001600160a01b03167f3d6c02e74ba05913874ba8d477497510df840bf93bfa5a2a8d8943766678a0e36117376080880160608901612102565b6040516001600160801b03909116815260200160405180910390a38461175d8660601c90565b6001600160a01b03167faed26e1cc9340165cad07fe9b04a60123395a7d8a6ca901a7400f598c9c03ab66003436040516117a1929190918252602082015260400190565b60405180910390a35050505050565b82158015906117be57508281145b6117da5760405162461bcd60e51b81526004016106709061202b565b6000858152602081815260408083208151608081018352905460ff8116825261010081046001600160581b031693820193909352600160601b830463ffffffff1691810191909152600160801b9091046001600160801b03166060820152905b848110156118a45761189a878388888581811061185957611859611fe7565b905060200201602081019061186e9190612154565b87878681811061188057611880611fe7565b90506020020160208101906118959190612102565b610e79565b915060010161183a565b50600095865260208681526040968790208251815492840151988401516060909401516001600160801b03908116600160801b0263ffffffff909516600160601b02166001600160601b036001600160581b03909a16610100026001600160601b031990941660ff909216919091179290921797909716171790945550505050565b6001600160a01b038381166000908152600360205260409020805490918481169116146119655760405162461bcd60e51b815260040161067090611e4d565b8054600160a01b90046001600160401b03164211156119965760405162461bcd60e51b815260040161067090611e78565b8054600160e01b900463ffffffff90811614611a1a578054600160e01b900463ffffffff168211156119da5760405162461bcd60e51b815260040161067090611e78565b805482908290601c906119fb908490600160e01b900463ffffffff16612184565b92506101000a81548163ffffffff021916908363ffffffff1602179055505b50505050565b6040518061020001604052806010906020820280368337509192915050565b60008060408385031215611a5257600080fd5b50508035926020909101359150565b80356001600160a01b0381168114611a7857600080fd5b919050565b600060208284031215611a8f57600080fd5b611a9882611a61565b9392505050565b60ff81168114611aae57600080fd5b50565b6001600160801b0381168114611aae57600080fd5b600080600060608486031215611adb57600080fd5b833592506020840135611aed81611a9f565b91506040840135611afd81611ab1565b809150509250925092565b600080600060608486031215611b1d57600080fd5b611b2684611a61565b925060208401356001600160401b0381168114611b4257600080fd5b9150604084013563ffffffff81168114611afd57600080fd5b600060208284031215611b6d57600080fd5b5035919050565b8060808101831015610ab657600080fd5b8060608101831015610ab657600080fd5b60008083601f840112611ba857600080fd5b5081356001600160401b03811115611bbf57600080fd5b602083019150836020828501011115611bd757600080fd5b9250929050565b6000806000806000806101408789031215611bf857600080fd5b86359550611c098860208901611b74565b9450611c188860a08901611b85565b935061010087013592506101208701356001600160401b03811115611c3c57600080fd5b611c4889828a01611b96565b979a9699509497509295939492505050565b60008083601f840112611c6c57600080fd5b5081356001600160401b03811115611c8357600080fd5b6020830191508360208260051b8501011115611bd757600080fd5b600080600080600060608688031215611cb657600080fd5b8535945060208601356001600160401b03811115611cd357600080fd5b611cdf88828901611c5a565b90955093505060408601356001600160401b03811115611cfe57600080fd5b611d0a88828901611c5a565b969995985093965092949392505050565b60008060006101008486031215611d3157600080fd5b83359250611d428560208601611b74565b9150611d518560a08601611b85565b90509250925092565b60008060008060008060008060a0898b031215611d7657600080fd5b8835975060208901356001600160401b03811115611d9357600080fd5b611d9f8b828c01611c5a565b90985096505060408901356001600160401b03811115611dbe57600080fd5b611dca8b828c01611c5a565b9096509450506060890135925060808901356001600160401b03811115611df057600080fd5b611dfc8b828c01611b96565b999c989b5096995094979396929594505050565b6102208101818460005b6010811015611e3c57815160ff16835260209283019290910190600101611e1a565b505050826102008301529392505050565b60208082526011908201527011d85b59541b185e595c925b9d985b1a59607a1b604082015260600190565b6020808252600e908201526d14d95cdcda5bdb925b9d985b1a5960921b604082015260600190565b60008183825b6004811015611ed8578135611eba81611ab1565b6001600160801b031683526020928301929190910190600101611ea6565b50505060808201905092915050565b60008183825b6003811015611f19578135611f0181611a9f565b60ff1683526020928301929190910190600101611eed565b50505060608201905092915050565b634e487b7160e01b600052601160045260246000fd5b600060018201611f5057611f50611f28565b5060010190565b60008184825b85811015611f88578135611f7081611a9f565b60ff1683526020928301929190910190600101611f5d565b509095945050505050565b60008184825b85811015611f88578135611fac81611ab1565b6001600160801b031683526020928301929190910190600101611f99565b600060208284031215611fdc57600080fd5b8151611a9881611a9f565b634e487b7160e01b600052603260045260246000fd5b6000806040838503121561201057600080fd5b825161201b81611ab1565b6020939093015192949293505050565b60208082526010908201526f11d85b59509bd85c99125b9d985b1a5960821b604082015260600190565b63ffffffff8181168382160190811115610ab657610ab6611f28565b6001600160581b038181168382160190811115610ab657610ab6611f28565b60208082526010908201526f14da59db985d1d5c99525b9d985b1a5960821b604082015260600190565b600080858511156120ca57600080fd5b838611156120d757600080fd5b5050820193919092039150565b80356020831015610ab657600019602084900360031b1b1692915050565b60006020828403121561211457600080fd5b8135611a9881611ab1565b60006020828403121561213157600080fd5b81518015158114611a9857600080fd5b81810381811115610ab657610ab6611f28565b60006020828403121561216657600080fd5b8135611a9881611a9f565b80820180821115610ab657610ab6611f28565b63ffffffff8281168282160390811115610ab657610ab6611f2856fea2646970667358221220bad7864aaa0361c4844320f409e2359bbed67b2b571a79e920e4fec9592a958864736f6c634300081c0033";
 
 type MEGAETH2048ConstructorParams =
   | [linkLibraryAddresses: MEGAETH2048LibraryAddresses, signer?: Signer]
@@ -1,70 +1,104 @@
 // Hooks
-import { useEffect, useRef, useState } from "react";
-import { usePrivy } from "@privy-io/react-auth";
-import { useTransactions } from "./hooks/useTransactions";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { ConfirmedMove, useTransactions } from "./hooks/useTransactions";
+import { useWallet } from "./hooks/useWallet";
+import { useUndoRedo } from "./hooks/useUndoRedo";
+import { useHint } from "./hooks/useHint";
 
 // UI
 import Board from "./components/Board";
 import Container from "./components/Container";
 import Scorecard from "./components/Scorecard";
+import ConnectionIndicator from "./components/ConnectionIndicator";
+import NetworkPicker from "./components/NetworkPicker";
 import LoginButton from "./components/LoginButton";
+import PracticeControls from "./components/PracticeControls";
+import ReplayViewer from "./components/ReplayViewer";
+import HintControls from "./components/HintControls";
+import { Button } from "@/components/ui/button";
 import { Toaster } from "@/components/ui/sonner";
 
 // Utils
-import {
-    encodePacked,
-    Hex,
-    hexToBigInt,
-    isAddress,
-    keccak256,
-    toBytes,
-    toHex,
-} from "viem";
+import { Hex, isAddress, toBytes, toHex } from "viem";
 import { FaucetDialog } from "./components/FaucetDialog";
+import { ResumeDialog } from "./components/ResumeDialog";
+import { toast } from "sonner";
+import { MOVE_BATCH } from "./utils/constants";
+import { RELAYER_URL } from "./utils/relayer";
+import {
+    decodeGameError,
+    GameError,
+    GamePlayerInvalidError,
+} from "./utils/errors";
+import {
+    arrayToBoard,
+    canMove,
+    diffBoards,
+    Direction,
+    getStartPosition,
+    isGameOver,
+    moveSeed,
+    newMilestones,
+    PackedBoard,
+    processMove,
+    slide,
+} from "./utils/engine";
+import { moveTiles, Tile, tilesFromBoard } from "./utils/tiles";
+import {
+    clearActiveGame,
+    loadActiveGame,
+    recordMilestone,
+    saveActiveGame,
+    StoredGame,
+} from "./utils/storage";
 
 // Types
-enum Direction {
-    UP,
-    DOWN,
-    LEFT,
-    RIGHT,
-}
-type Tile = {
-    id: string;
-    value: number;
-    row: number;
-    col: number;
-    mergedFrom?: string[];
-    isNew?: boolean;
-};
 type EncodedMove = {
     board: bigint; // 128 bits
     move: number; // 8 bits
 };
 type BoardState = {
+    board: PackedBoard;
     tiles: Tile[];
     score: number;
 };
+type GameSnapshot = {
+    boardState: BoardState;
+    playedMovesCount: number;
+};
 
 export default function Game2048() {
     // =============================================================//
     //                      Custom Hook Values                      //
     // =============================================================//
 
-    const { user } = usePrivy();
+    const {
+        wallet,
+        login,
+        loginWithDevSigner,
+        enableSession,
+        disableSession,
+        logout,
+    } = useWallet();
+
+    // Moves are signed for the relayer, which pays for them.
+    const [sponsored, setSponsored] = useState<boolean>(false);
 
     const {
+        movesRemaining,
+        fundsNeeded,
         resetNonceAndBalance,
         getLatestGameBoard,
         playNewMoveTransaction,
         initializeGameTransaction,
-    } = useTransactions();
+    } = useTransactions({ wallet, batch: MOVE_BATCH, sponsored });
 
     // =============================================================//
     //                         Game State                           //
     // =============================================================//
 
     const [gameOver, setGameOver] = useState<boolean>(false);
+    const [wonTile, setWonTile] = useState<number | null>(null);
     const [gameError, setGameError] = useState<boolean>(false);
     const [gameErrorText, setGameErrorText] = useState<string>("");
     const [isAnimating, setIsAnimating] = useState<boolean>(false);
@@ -75,11 +109,29 @@ export default function Game2048() {
     const [playedMovesCount, setPlayedMovesCount] = useState<number>(0);
 
     const [boardState, setBoardState] = useState<BoardState>({
+        board: 0n,
         tiles: [],
         score: 0,
     });
     const [resetBoards, setResetBoards] = useState<BoardState[]>([]);
 
+    // Boards played locally by move number, checked against every receipt.
+    const localBoards = useRef(new Map<number, PackedBoard>());
+    // Bumped whenever the board is replaced wholesale; confirmations and
+    // failures of moves played before then no longer apply.
+    const generation = useRef<number>(0);
+
+    // Practice games are played locally and never touch the chain.
+    const [practiceMode, setPracticeMode] = useState<boolean>(false);
+    const practiceHistory = useUndoRedo<GameSnapshot>();
+
+    const [replayOpen, setReplayOpen] = useState<boolean>(false);
+
+    // Hints are searched in a worker; exact lookahead is practice-only.
+    const { hint, thinking, requestHint, clearHint } = useHint();
+    const [autoPlay, setAutoPlay] = useState<boolean>(false);
+    const [exactHints, setExactHints] = useState<boolean>(false);
+
     // =============================================================//
     //                   Detect and execute moves                   //
     // =============================================================//
@@ -96,14 +148,20 @@ export default function Game2048() {
         }
     }, [resetBoards]);
 
+    // Set while an automatic recovery runs, so later failures of the same
+    // batch of moves do not start another.
+    const recovering = useRef<boolean>(false);
+
     function resetBoardOnError(
         premoveBoard: BoardState,
         currentMove: number,
         error: Error
     ) {
+        const decoded = decodeGameError(error);
+
         if (!gameError) {
             setGameError(true);
-            setGameErrorText(error.message);
+            setGameErrorText(decoded.message);
 
             setResetBoards((current) => [...current, premoveBoard]);
             setPlayedMovesCount(currentMove);
@@ -111,33 +169,162 @@ export default function Game2048() {
             setIsAnimating(false);
         }
 
-        if (error.message.includes("insufficient balance")) {
+        // With a relayer, a player out of funds can play sponsored instead.
+        if (decoded.recovery === "faucet" && (!RELAYER_URL || sponsored)) {
             setFaucetModalOpen(true);
+        } else if (decoded.recovery !== "none" && !recovering.current) {
+            recovering.current = true;
+            recoverFromError(decoded).finally(() => {
+                recovering.current = false;
+            });
+        }
+    }
+
+    async function recoverFromError(error: GameError) {
+        // A revoked session key no longer plays for the player either.
+        const recovery =
+            wallet?.kind === "session" &&
+            error instanceof GamePlayerInvalidError
+                ? "endSession"
+                : error.recovery;
+
+        try {
+            switch (recovery) {
+                case "resync":
+                    toast.info("Re-syncing with the chain.", {
+                        description: error.message,
+                    });
+                    await resyncGame();
+                    break;
+                case "resyncNonce":
+                    // Re-syncing rebuilds the nonce counter from the chain.
+                    toast.info("Re-syncing transaction nonce.", {
+                        description: error.message,
+                    });
+                    await resyncGame();
+                    break;
+                case "newGame":
+                    toast.info("Starting a new game.", {
+                        description: error.message,
+                    });
+                    initializeGame();
+                    break;
+                case "faucet":
+                    toast.info("Switching to sponsored play.", {
+                        description: error.message,
+                    });
+                    setSponsored(true);
+                    await resyncGame();
+                    break;
+                case "endSession":
+                    toast.info("Fast play ended, moves need your wallet.", {
+                        description: error.message,
+                    });
+                    await disableSession?.();
+                    await resyncGame();
+                    break;
+            }
+        } catch (recoveryError) {
+            console.error("Error recovering game:", recoveryError);
+        }
+    }
+
+    // Starts a new line of local boards, e.g. for a new or re-synced game.
+    function resetLocalBoards(moveNumber?: number, board?: PackedBoard) {
+        generation.current++;
+        localBoards.current = new Map();
+        if (moveNumber !== undefined && board !== undefined) {
+            localBoards.current.set(moveNumber, board);
         }
     }
 
+    /**
+     * Checks a confirmed move against the board played locally for it. On a
+     * mismatch, the moves played since are dropped and the game continues
+     * from the contract's board, without stopping for a manual re-sync.
+     */
+    function reconcileMove(
+        moveGeneration: number,
+        confirmed: ConfirmedMove,
+        playedScore: number
+    ) {
+        if (moveGeneration !== generation.current) return;
+
+        const local = localBoards.current.get(confirmed.moveNumber);
+        if (local === undefined || local === confirmed.board) return;
+
+        console.warn(
+            `Board diverged from the chain at move ${confirmed.moveNumber}:`,
+            diffBoards(local, confirmed.board)
+        );
+        resetLocalBoards(confirmed.moveNumber, confirmed.board);
+
+        setResetBoards([]);
+        setBoardState({
+            board: confirmed.board,
+            tiles: tilesFromBoard(confirmed.board),
+            score: confirmed.score ?? playedScore,
+        });
+        setPlayedMovesCount(confirmed.moveNumber + 1);
+        setGameOver(isGameOver(confirmed.board));
+        setWonTile(null);
+        setIsAnimating(false);
+
+        toast.warning("Rolled back to the on-chain board.", {
+            description: `Move ${confirmed.moveNumber} was confirmed with a different board.`,
+        });
+    }
+
     // Handle keyboard / swipe events
     const gameContainerRef = useRef<HTMLDivElement>(null);
+    // The latest `move`, undo and redo, so handlers registered by effects
+    // play through the current wallet and history.
+    const moveRef = useRef<(direction: Direction) => Promise<void>>(
+        async () => {}
+    );
+    const undoRef = useRef<() => void>(() => {});
+    const redoRef = useRef<() => void>(() => {});
 
     useEffect(() => {
         const container = gameContainerRef.current;
         if (!container) return;
 
         const handleKeyDown = async (event: KeyboardEvent) => {
-            if (!user || gameOver || isAnimating) return;
+            if (practiceMode && (event.ctrlKey || event.metaKey)) {
+                const key = event.key.toLowerCase();
+                if (key === "z" && !event.shiftKey) {
+                    event.preventDefault();
+                    undoRef.current();
+                    return;
+                }
+                if (key === "y" || (key === "z" && event.shiftKey)) {
+                    event.preventDefault();
+                    redoRef.current();
+                    return;
+                }
+            }
+
+            if (
+                (!wallet && !practiceMode) ||
+                replayOpen ||
+                gameOver ||
+                wonTile !== null ||
+                isAnimating
+            )
+                return;
 
             switch (event.key) {
                 case "ArrowUp":
-                    await move(Direction.UP);
+                    await moveRef.current(Direction.UP);
                     break;
                 case "ArrowDown":
-                    await move(Direction.DOWN);
+                    await moveRef.current(Direction.DOWN);
                     break;
                 case "ArrowLeft":
-                    await move(Direction.LEFT);
+                    await moveRef.current(Direction.LEFT);
                     break;
                 case "ArrowRight":
-                    await move(Direction.RIGHT);
+                    await moveRef.current(Direction.RIGHT);
                     break;
             }
         };
@@ -153,7 +340,14 @@ export default function Game2048() {
 
         const handleTouchEnd = async (e: TouchEvent) => {
             e.preventDefault(); // 👈 also here
-            if (!user || gameOver || isAnimating) return;
+            if (
+                (!wallet && !practiceMode) ||
+                replayOpen ||
+                gameOver ||
+                wonTile !== null ||
+                isAnimating
+            )
+                return;
 
             const touchEndX = e.changedTouches[0].screenX;
             const touchEndY = e.changedTouches[0].screenY;
@@ -162,11 +356,11 @@ export default function Game2048() {
             const dy = touchEndY - touchStartY;
 
             if (Math.abs(dx) > Math.abs(dy)) {
-                if (dx > 50) await move(Direction.RIGHT);
-                else if (dx < -50) await move(Direction.LEFT);
+                if (dx > 50) await moveRef.current(Direction.RIGHT);
+                else if (dx < -50) await moveRef.current(Direction.LEFT);
             } else {
-                if (dy > 50) await move(Direction.DOWN);
-                else if (dy < -50) await move(Direction.UP);
+                if (dy > 50) await moveRef.current(Direction.DOWN);
+                else if (dy < -50) await moveRef.current(Direction.UP);
             }
         };
 
@@ -183,191 +377,172 @@ export default function Game2048() {
             container.removeEventListener("touchstart", handleTouchStart);
             container.removeEventListener("touchend", handleTouchEnd);
         };
-    }, [boardState, gameOver, isAnimating]);
+    }, [
+        wallet,
+        boardState,
+        gameOver,
+        wonTile,
+        isAnimating,
+        practiceMode,
+        replayOpen,
+    ]);
 
     // Move tiles in the specified direction
     const move = async (direction: Direction) => {
         const premoveBoard = boardState;
         const currentMove = playedMovesCount;
+        const moveGeneration = generation.current;
 
         try {
-            // Create a copy of the board state
-            const newBoardState: BoardState = {
-                tiles: JSON.parse(JSON.stringify(boardState.tiles)),
-                score: boardState.score,
+            // Skip moves that do not change the board
+            if (!canMove(boardState.board, direction)) return;
+
+            clearHint();
+
+            // Pause moves
+            setIsAnimating(true);
+
+            // Slide the board and place the seeded tile
+            const { score } = slide(boardState.board, direction);
+            const board = processMove(
+                boardState.board,
+                direction,
+                moveSeed(activeGameId, currentMove)
+            );
+            const updatedBoardState: BoardState = {
+                board,
+                tiles: moveTiles(boardState.tiles, direction, board),
+                score: boardState.score + score,
             };
 
-            // Reset the merged and new flags
-            newBoardState.tiles.forEach((tile) => {
-                tile.mergedFrom = undefined;
-                tile.isNew = false;
-            });
+            // Add move
+            const encoded: EncodedMove = { board, move: direction };
+            const newEncodedMoves = [...encodedMoves, encoded];
+            const moveCount = playedMovesCount;
 
-            // Get the traversal order based on the direction
-            const traversals = getTraversalDirections(direction);
-
-            let moved = false;
-
-            // Process the tiles in the correct order
-            traversals.row.forEach((row) => {
-                traversals.col.forEach((col) => {
-                    const tile = newBoardState.tiles.find(
-                        (t) => t.row === row && t.col === col
-                    );
-
-                    if (tile) {
-                        const { newRow, newCol, merged } = findFarthestPosition(
-                            newBoardState,
-                            tile,
-                            direction
-                        );
-
-                        if (merged) {
-                            // Merge with the tile at the new position
-                            const targetTile = newBoardState.tiles.find(
-                                (t) => t.row === newRow && t.col === newCol
-                            );
-
-                            if (targetTile) {
-                                // Create a new tile with the merged value
-                                const mergedTile: Tile = {
-                                    id: generateTileId(),
-                                    value: tile.value * 2,
-                                    row: newRow,
-                                    col: newCol,
-                                    mergedFrom: [tile.id, targetTile.id],
-                                };
-
-                                // Remove the original tiles
-                                newBoardState.tiles =
-                                    newBoardState.tiles.filter(
-                                        (t) =>
-                                            t.id !== tile.id &&
-                                            t.id !== targetTile.id
-                                    );
-
-                                // Add the merged tile
-                                newBoardState.tiles.push(mergedTile);
-
-                                // Update the score
-                                newBoardState.score += mergedTile.value;
-
-                                moved = true;
-                            }
-                        } else if (tile.row !== newRow || tile.col !== newCol) {
-                            // Move the tile to the new position
-                            tile.row = newRow;
-                            tile.col = newCol;
-
-                            moved = true;
-                        }
-                    }
+            if (practiceMode) {
+                practiceHistory.record({
+                    boardState,
+                    playedMovesCount,
                 });
-            });
+            }
 
-            // If the board changed, add a new random tile
-            if (moved) {
-                // Pause moves
-                setIsAnimating(true);
-
-                // Create a new copy to avoid mutation issues
-                const updatedBoardState = {
-                    tiles: [...newBoardState.tiles],
-                    score: newBoardState.score,
-                };
-                addRandomTileViaSeed(
-                    updatedBoardState,
-                    activeGameId,
-                    currentMove
-                );
+            if (!practiceMode) {
+                localBoards.current.set(moveCount, board);
+            }
 
-                // Add move
-                const encoded = tilesToEncodedMove(
-                    updatedBoardState.tiles,
-                    direction
-                );
-                const newEncodedMoves = [...encodedMoves, encoded];
-                const moveCount = playedMovesCount;
-
-                if (moveCount == 3) {
-                    const boards = [
-                        newEncodedMoves[0].board,
-                        newEncodedMoves[1].board,
-                        newEncodedMoves[2].board,
-                        newEncodedMoves[3].board,
-                    ] as readonly [bigint, bigint, bigint, bigint];
-
-                    const moves = [
-                        newEncodedMoves[1].move,
-                        newEncodedMoves[2].move,
-                        newEncodedMoves[3].move,
-                    ] as readonly [number, number, number];
-
-                    initializeGameTransaction(
-                        activeGameId,
-                        boards,
-                        moves
-                    ).catch((error) => {
+            if (moveCount == 3 && !practiceMode) {
+                const boards = [
+                    newEncodedMoves[0].board,
+                    newEncodedMoves[1].board,
+                    newEncodedMoves[2].board,
+                    newEncodedMoves[3].board,
+                ] as readonly [bigint, bigint, bigint, bigint];
+
+                const moves = [
+                    newEncodedMoves[1].move,
+                    newEncodedMoves[2].move,
+                    newEncodedMoves[3].move,
+                ] as readonly [number, number, number];
+
+                initializeGameTransaction(activeGameId, boards, moves)
+                    .then((confirmed) =>
+                        reconcileMove(
+                            moveGeneration,
+                            confirmed,
+                            updatedBoardState.score
+                        )
+                    )
+                    .catch((error) => {
+                        if (moveGeneration !== generation.current) return;
                         console.error("Error in init transaction:", error);
                         resetBoardOnError(premoveBoard, currentMove, error);
                     });
-                }
+            }
 
-                if (moveCount > 3) {
-                    playNewMoveTransaction(
-                        activeGameId as Hex,
-                        encoded.board,
-                        encoded.move,
-                        moveCount
-                    ).catch((error) => {
+            if (moveCount > 3 && !practiceMode) {
+                playNewMoveTransaction(
+                    activeGameId as Hex,
+                    encoded.board,
+                    encoded.move,
+                    moveCount
+                )
+                    .then((confirmed) =>
+                        reconcileMove(
+                            moveGeneration,
+                            confirmed,
+                            updatedBoardState.score
+                        )
+                    )
+                    .catch((error) => {
+                        if (moveGeneration !== generation.current) return;
                         console.error("Error in move transaction:", error);
                         resetBoardOnError(premoveBoard, currentMove, error);
                     });
-                }
+            }
 
-                setBoardState(updatedBoardState);
-                setEncodedMoves(newEncodedMoves);
-                setPlayedMovesCount(moveCount + 1);
+            setBoardState(updatedBoardState);
+            setEncodedMoves(newEncodedMoves);
+            setPlayedMovesCount(moveCount + 1);
 
-                // Check if the game is over
-                if (checkGameOver(updatedBoardState)) {
-                    setGameOver(true);
-                }
+            // Check if the game is over
+            if (isGameOver(board)) {
+                setGameOver(true);
+            }
 
-                // Resume moves
-                await new Promise((resolve) => setTimeout(resolve, 150));
-                setIsAnimating(false);
+            // Celebrate newly reached milestones
+            const milestones = newMilestones(boardState.board, board);
+            if (milestones.length > 0) {
+                milestones.forEach((tile) =>
+                    recordMilestone(activeGameId, {
+                        tile,
+                        moveNumber: moveCount,
+                        score: updatedBoardState.score,
+                        practice: practiceMode,
+                        reachedAt: Date.now(),
+                    })
+                );
+                setWonTile(milestones[milestones.length - 1]);
             }
+
+            // Resume moves
+            await new Promise((resolve) => setTimeout(resolve, 150));
+            setIsAnimating(false);
         } catch (error) {
             console.error("Error in move operation:", error);
             resetBoardOnError(premoveBoard, currentMove, error as Error);
         }
     };
+    moveRef.current = move;
 
     // =============================================================//
     //                      Initialize new game                     //
     // =============================================================//
 
-    // Initialize the game with two random tiles
+    // Initialize the game with the start position derived from its ID
     const initializeGame = () => {
+        startGame(randomIDForAddress(wallet?.player!));
+    };
+
+    const startGame = (gameId: Hex) => {
         setResetBoards([]);
 
+        const board = getStartPosition(gameId);
         const newBoardState: BoardState = {
-            tiles: [],
+            board,
+            tiles: tilesFromBoard(board),
             score: 0,
         };
 
-        // Add two random tiles
-        addRandomTile(newBoardState);
-        addRandomTile(newBoardState);
-
+        resetLocalBoards();
         setPlayedMovesCount(1);
-        setActiveGameId(randomIDForAddress(user?.wallet?.address!));
-        setEncodedMoves([tilesToEncodedMove(newBoardState.tiles, 0)]);
+        setActiveGameId(gameId);
+        setEncodedMoves([{ board, move: 0 }]);
 
         setBoardState(newBoardState);
         setGameError(false);
         setGameOver(false);
+        setWonTile(null);
     };
 
     function randomIDForAddress(address: string): Hex {
@@ -385,82 +560,83 @@ export default function Game2048() {
         return toHex(fullBytes);
     }
 
-    // Add a random tile to the board (2 with 90% chance, 4 with 10% chance)
-    const addRandomTile = (boardState: BoardState) => {
-        const emptyCells = [];
+    // =============================================================//
+    //                         Practice mode                        //
+    // =============================================================//
 
-        // Find all empty cells
-        for (let row = 0; row < 4; row++) {
-            for (let col = 0; col < 4; col++) {
-                if (
-                    !boardState.tiles.some(
-                        (tile) => tile.row === row && tile.col === col
-                    )
-                ) {
-                    emptyCells.push({ row, col });
-                }
-            }
-        }
+    // Practice games are not bound to a player, so the whole ID is random.
+    const initializePracticeGame = () => {
+        practiceHistory.clear();
+        startGame(toHex(crypto.getRandomValues(new Uint8Array(32))));
+    };
+
+    const enterPracticeMode = () => {
+        setPracticeMode(true);
+        initializePracticeGame();
+    };
 
-        // If there are no empty cells, return
-        if (emptyCells.length === 0) return;
+    const exitPracticeMode = () => {
+        setPracticeMode(false);
+        practiceHistory.clear();
 
-        // Choose a random empty cell
-        const randomCell =
-            emptyCells[Math.floor(Math.random() * emptyCells.length)];
+        setBoardState({ board: 0n, tiles: [], score: 0 });
+        setEncodedMoves([]);
+        setPlayedMovesCount(0);
+        setGameOver(false);
+        setWonTile(null);
+    };
 
-        // Create a new tile
-        const newTile: Tile = {
-            id: generateTileId(),
-            value: Math.random() < 0.9 ? 2 : 4,
-            row: randomCell.row,
-            col: randomCell.col,
-            isNew: true,
-        };
+    const restorePracticeSnapshot = (snapshot?: GameSnapshot) => {
+        if (!snapshot) return;
 
-        boardState.tiles.push(newTile);
+        setBoardState({
+            ...snapshot.boardState,
+            tiles: tilesFromBoard(snapshot.boardState.board, false),
+        });
+        setPlayedMovesCount(snapshot.playedMovesCount);
+        setGameOver(isGameOver(snapshot.boardState.board));
+        setWonTile(null);
     };
 
+    const undoPracticeMove = () => {
+        restorePracticeSnapshot(
+            practiceHistory.undo({ boardState, playedMovesCount })
+        );
+    };
+
+    const redoPracticeMove = () => {
+        restorePracticeSnapshot(
+            practiceHistory.redo({ boardState, playedMovesCount })
+        );
+    };
+    undoRef.current = undoPracticeMove;
+    redoRef.current = redoPracticeMove;
+
     // =============================================================//
     //                      Re-sync ongoing game                    //
     // =============================================================//
 
     // Resumes a game where it was left off
     const resyncGame = async () => {
-        const newBoardState: BoardState = {
-            tiles: [],
-            score: boardState.score,
-        };
+        // Let queued moves land before reading the game back.
+        setResetBoards([]);
+        await resetNonceAndBalance();
 
-        const [latestBoard, nextMoveNumber] = await getLatestGameBoard(
+        const [latestBoard, nextMoveNumber, score] = await getLatestGameBoard(
             activeGameId
         );
 
-        let nonzero = false;
-        for (let i = 0; i < 4; i++) {
-            for (let j = 0; j < 4; j++) {
-                const value = latestBoard[4 * i + j];
-                if (value > 0) {
-                    nonzero = true;
-
-                    const newTile: Tile = {
-                        id: generateTileId(),
-                        value: 2 ** value,
-                        row: i,
-                        col: j,
-                        isNew: true,
-                    };
-
-                    newBoardState.tiles.push(newTile);
-                }
-            }
-        }
+        const board = arrayToBoard(latestBoard);
+        const newBoardState: BoardState = {
+            board,
+            tiles: tilesFromBoard(board),
+            score: Number(score),
+        };
 
-        setResetBoards([]);
-        await resetNonceAndBalance();
-        if (!nonzero) {
+        if (board === 0n) {
             initializeGame();
         } else {
+            resetLocalBoards(Number(nextMoveNumber) - 1, board);
             setBoardState(newBoardState);
             setPlayedMovesCount(parseInt(nextMoveNumber.toString()));
             setGameErrorText("");
@@ -469,231 +645,184 @@ export default function Game2048() {
     };
 
     // =============================================================//
-    //                      Board logic helpers                     //
+    //                        Hints and auto-play                   //
     // =============================================================//
 
-    // Generate a unique ID for tiles
-    const generateTileId = () => {
-        return keccak256(toHex(Math.random().toString()));
-    };
+    const searchHint = useCallback(
+        () =>
+            requestHint({
+                board: boardState.board,
+                exact:
+                    practiceMode && exactHints
+                        ? { gameId: activeGameId, moveNumber: playedMovesCount }
+                        : undefined,
+            }),
+        [
+            requestHint,
+            boardState.board,
+            practiceMode,
+            exactHints,
+            activeGameId,
+            playedMovesCount,
+        ]
+    );
 
-    // Add a random tile to the board (2 with 90% chance, 4 with 10% chance)
-    const addRandomTileViaSeed = (
-        boardState: BoardState,
-        gameId: Hex,
-        moveNumber: number
-    ) => {
-        const emptyCells = [];
-
-        // Find all empty cells
-        for (let row = 0; row < 4; row++) {
-            for (let col = 0; col < 4; col++) {
-                if (
-                    !boardState.tiles.some(
-                        (tile) => tile.row === row && tile.col === col
-                    )
-                ) {
-                    emptyCells.push({ row, col });
-                }
-            }
+    // Play the suggested move whenever the board settles.
+    useEffect(() => {
+        if (
+            !autoPlay ||
+            (!wallet && !practiceMode) ||
+            replayOpen ||
+            gameOver ||
+            gameError ||
+            wonTile !== null ||
+            isAnimating ||
+            boardState.board === 0n
+        ) {
+            return;
         }
 
-        // If there are no empty cells, return
-        if (emptyCells.length === 0) return;
-
-        // Choose a random empty cell
-        const seed = hexToBigInt(
-            keccak256(
-                encodePacked(
-                    ["bytes32", "uint256"],
-                    [gameId, BigInt(moveNumber)]
-                )
-            )
-        );
-        const index = parseInt((seed % BigInt(emptyCells.length)).toString());
-        const randomCell = emptyCells[index];
-
-        // Choose random value.
-        const value = parseInt((seed % BigInt(100)).toString()) > 90 ? 4 : 2;
-
-        // Create a new tile
-        const newTile: Tile = {
-            id: generateTileId(),
-            value,
-            row: randomCell.row,
-            col: randomCell.col,
-            isNew: true,
-        };
-
-        boardState.tiles.push(newTile);
-    };
-
-    // Convert the tiles array to a 2D grid for easier processing
-    const getTilesGrid = (tiles: Tile[]): (Tile | null)[][] => {
-        const grid: (Tile | null)[][] = Array(4)
-            .fill(null)
-            .map(() => Array(4).fill(null));
-
-        tiles.forEach((tile) => {
-            grid[tile.row][tile.col] = tile;
-        });
-
-        return grid;
-    };
-
-    // Check if the game is over
-    const checkGameOver = (boardState: BoardState) => {
-        // If there are empty cells, the game is not over
-        if (boardState.tiles.length < 16) return false;
-
-        const grid = getTilesGrid(boardState.tiles);
-
-        // Check if there are any adjacent cells with the same value
-        for (let row = 0; row < 4; row++) {
-            for (let col = 0; col < 4; col++) {
-                const tile = grid[row][col];
-                if (tile) {
-                    // Check right
-                    if (
-                        col < 3 &&
-                        grid[row][col + 1] &&
-                        grid[row][col + 1]!.value === tile.value
-                    ) {
-                        return false;
-                    }
-                    // Check down
-                    if (
-                        row < 3 &&
-                        grid[row + 1][col] &&
-                        grid[row + 1][col]!.value === tile.value
-                    ) {
-                        return false;
-                    }
-                }
+        let cancelled = false;
+        searchHint().then((direction) => {
+            if (!cancelled && direction !== null) {
+                moveRef.current(direction);
             }
-        }
-
-        return true;
-    };
-
-    function tilesToEncodedMove(
-        tiles: Tile[],
-        direction: Direction
-    ): EncodedMove {
-        const boardArray: number[] = new Array(16).fill(0);
-
-        tiles.forEach((tile) => {
-            const index = tile.row * 4 + tile.col;
-            boardArray[index] = Math.log2(tile.value);
         });
 
-        let board = BigInt(0);
-        for (let i = 0; i < 16; i++) {
-            board |= BigInt(boardArray[i]) << BigInt((15 - i) * 8);
-        }
-
-        const move = direction;
-
-        return { board, move };
-    }
-
-    // Get the traversal order based on the direction
-    const getTraversalDirections = (direction: Direction) => {
-        const traversals = {
-            row: [0, 1, 2, 3],
-            col: [0, 1, 2, 3],
+        return () => {
+            cancelled = true;
         };
+    }, [
+        autoPlay,
+        wallet,
+        practiceMode,
+        boardState,
+        isAnimating,
+        gameOver,
+        gameError,
+        wonTile,
+        replayOpen,
+        searchHint,
+    ]);
+
+    // Stop auto-play once the game ends.
+    useEffect(() => {
+        if (gameOver || gameError) {
+            setAutoPlay(false);
+        }
+    }, [gameOver, gameError]);
 
-        // Process tiles in the correct order based on the direction
-        if (direction === Direction.RIGHT) traversals.col = [3, 2, 1, 0];
-        if (direction === Direction.DOWN) traversals.row = [3, 2, 1, 0];
+    // =============================================================//
+    //                    Persist and resume games                  //
+    // =============================================================//
 
-        return traversals;
-    };
+    const playerAddress = wallet?.player;
+    const [resumableGame, setResumableGame] = useState<StoredGame | null>(null);
 
-    // Find the farthest position a tile can move in the specified direction
-    const findFarthestPosition = (
-        boardState: BoardState,
-        tile: Tile,
-        direction: Direction
-    ) => {
-        let { row, col } = tile;
-        let newRow = row;
-        let newCol = col;
-        let merged = false;
-
-        // Calculate the vector for the direction
-        const vector = getVector(direction);
-
-        // Move as far as possible in the direction
-        do {
-            row = newRow;
-            col = newCol;
-            newRow = row + vector.row;
-            newCol = col + vector.col;
-        } while (
-            isWithinBounds(newRow, newCol) &&
-            !isCellOccupied(boardState, newRow, newCol)
-        );
+    // Persist the active on-chain game so that a reload can resume it.
+    useEffect(() => {
+        if (!playerAddress || practiceMode || activeGameId === "0x") return;
 
-        // Check if we can merge with the tile at the new position
+        // The top 160 bits of a game ID are its player's address.
         if (
-            isWithinBounds(newRow, newCol) &&
-            canMergeWithTile(boardState, tile, newRow, newCol)
+            activeGameId.slice(0, 42).toLowerCase() !==
+            playerAddress.toLowerCase()
         ) {
-            merged = true;
-        } else {
-            // If we can't merge, use the previous position
-            newRow = row;
-            newCol = col;
+            return;
         }
 
-        return { newRow, newCol, merged };
-    };
+        if (gameOver) {
+            clearActiveGame(playerAddress);
+            return;
+        }
 
-    // Get the vector for the direction
-    const getVector = (direction: Direction) => {
-        const vectors = {
-            [Direction.UP]: { row: -1, col: 0 },
-            [Direction.RIGHT]: { row: 0, col: 1 },
-            [Direction.DOWN]: { row: 1, col: 0 },
-            [Direction.LEFT]: { row: 0, col: -1 },
-        };
+        saveActiveGame(playerAddress, {
+            gameId: activeGameId,
+            encodedMoves,
+            playedMovesCount,
+            board: boardState.board,
+            score: boardState.score,
+            updatedAt: Date.now(),
+        });
+    }, [
+        playerAddress,
+        practiceMode,
+        activeGameId,
+        encodedMoves,
+        playedMovesCount,
+        boardState,
+        gameOver,
+    ]);
+
+    // Offer to resume the stored game on login / reload.
+    useEffect(() => {
+        if (!playerAddress) return;
+        setResumableGame(loadActiveGame(playerAddress));
+    }, [playerAddress]);
 
-        return vectors[direction];
-    };
+    const resumeStoredGame = async () => {
+        const stored = resumableGame;
+        setResumableGame(null);
+        if (!stored || !playerAddress) return;
 
-    // Check if the position is within the bounds of the board
-    const isWithinBounds = (row: number, col: number) => {
-        return row >= 0 && row < 4 && col >= 0 && col < 4;
-    };
+        try {
+            // Let moves queued before the reload land first.
+            await resetNonceAndBalance();
+
+            const [latestBoard, nextMoveNumber, chainScore] =
+                await getLatestGameBoard(stored.gameId);
+            let board = arrayToBoard(latestBoard);
+            let nextMove = parseInt(nextMoveNumber.toString());
+            let score = Number(chainScore);
+
+            if (board === 0n) {
+                // The game was never started on-chain. Only the opening
+                // moves, which are sent together, can still be replayed.
+                if (stored.playedMovesCount > 3) {
+                    clearActiveGame(playerAddress);
+                    toast.error("This game can no longer be resumed.", {
+                        description: "It was never started on-chain.",
+                    });
+                    return;
+                }
+                board = stored.board;
+                nextMove = stored.playedMovesCount;
+                score = stored.score;
+            }
 
-    // Check if the cell is occupied
-    const isCellOccupied = (
-        boardState: BoardState,
-        row: number,
-        col: number
-    ) => {
-        return boardState.tiles.some(
-            (tile) => tile.row === row && tile.col === col
-        );
+            if (practiceMode) {
+                setPracticeMode(false);
+                practiceHistory.clear();
+            }
+
+            setResetBoards([]);
+
+            resetLocalBoards(nextMove - 1, board);
+            setActiveGameId(stored.gameId);
+            setEncodedMoves(stored.encodedMoves);
+            setPlayedMovesCount(nextMove);
+            setBoardState({
+                board,
+                tiles: tilesFromBoard(board),
+                score,
+            });
+            setGameErrorText("");
+            setGameError(false);
+            setGameOver(isGameOver(board));
+            setWonTile(null);
+        } catch (error) {
+            console.error("Error resuming game:", error);
+            toast.error("Failed to resume game.", {
+                description: `Error: ${(error as Error).message}`,
+            });
+        }
     };
 
-    // Check if the tile can merge with the tile at the specified position
-    const canMergeWithTile = (
-        boardState: BoardState,
-        tile: Tile,
-        row: number,
-        col: number
-    ) => {
-        const targetTile = boardState.tiles.find(
-            (t) => t.row === row && t.col === col
-        );
-        return (
-            targetTile &&
-            targetTile.value === tile.value &&
-            !targetTile.mergedFrom
-        );
+    const discardStoredGame = () => {
+        if (playerAddress) {
+            clearActiveGame(playerAddress);
+        }
+        setResumableGame(null);
     };
 
     // Display
@@ -716,24 +845,113 @@ export default function Game2048() {
         <Container>
             <div className="flex flex-col flex-1">
                 <div className="flex items-center justify-between w-full max-w-md mx-auto mb-2 p-4">
-                    <Scorecard score={boardState.score} />
-                    <LoginButton resetGame={initializeGame} />
+                    <div className="flex flex-col items-center gap-2">
+                        <Scorecard score={boardState.score} />
+                        <ConnectionIndicator />
+                        {import.meta.env.VITE_APP_ENVIRONMENT !== "prod" && (
+                            <NetworkPicker />
+                        )}
+                    </div>
+                    {practiceMode ? (
+                        <PracticeControls
+                            canUndo={practiceHistory.canUndo}
+                            canRedo={practiceHistory.canRedo}
+                            resetGame={initializePracticeGame}
+                            undo={undoPracticeMove}
+                            redo={redoPracticeMove}
+                            exitPractice={exitPracticeMode}
+                        />
+                    ) : (
+                        <div className="flex flex-col items-center">
+                            <LoginButton
+                                address={wallet?.player}
+                                login={login}
+                                loginWithDevSigner={loginWithDevSigner}
+                                enableSession={enableSession}
+                                disableSession={disableSession}
+                                sponsored={sponsored}
+                                setSponsored={
+                                    RELAYER_URL ? setSponsored : undefined
+                                }
+                                logout={logout}
+                                resetGame={initializeGame}
+                                movesRemaining={movesRemaining}
+                            />
+                            <div className="flex items-center">
+                                <Button
+                                    variant="ghost"
+                                    className="underline"
+                                    onClick={enterPracticeMode}
+                                >
+                                    Practice
+                                </Button>
+                                <Button
+                                    variant="ghost"
+                                    className="underline"
+                                    onClick={() => setReplayOpen(!replayOpen)}
+                                >
+                                    Replay
+                                </Button>
+                            </div>
+                        </div>
+                    )}
                 </div>
 
                 <div className="flex-1 overflow-auto px-2">
-                    <Board
-                        containerRef={gameContainerRef}
-                        tiles={boardState.tiles}
-                        score={boardState.score}
-                        gameOver={gameOver}
-                        gameError={gameError}
-                        gameErrorText={gameErrorText}
-                        resyncGame={resyncGame}
-                        initializeGame={initializeGame}
-                    />
+                    {replayOpen ? (
+                        <ReplayViewer
+                            initialGameId={activeGameId}
+                            close={() => setReplayOpen(false)}
+                        />
+                    ) : (
+                        <>
+                            {boardState.board !== 0n && (
+                                <HintControls
+                                    thinking={thinking}
+                                    autoPlay={autoPlay}
+                                    exact={exactHints}
+                                    exactAvailable={practiceMode}
+                                    showHint={searchHint}
+                                    setAutoPlay={setAutoPlay}
+                                    setExact={setExactHints}
+                                />
+                            )}
+                            <Board
+                                containerRef={gameContainerRef}
+                                tiles={boardState.tiles}
+                                score={boardState.score}
+                                gameOver={gameOver}
+                                wonTile={wonTile}
+                                keepGoing={() => setWonTile(null)}
+                                gameError={gameError}
+                                gameErrorText={gameErrorText}
+                                resyncGame={resyncGame}
+                                initializeGame={
+                                    practiceMode
+                                        ? initializePracticeGame
+                                        : initializeGame
+                                }
+                                practice={practiceMode}
+                                undoMove={
+                                    practiceMode ? undoPracticeMove : undefined
+                                }
+                                hint={hint}
+                            />
+                        </>
+                    )}
                 </div>
 
+                <ResumeDialog
+                    isOpen={resumableGame !== null}
+                    score={resumableGame?.score ?? 0}
+                    moveCount={resumableGame?.playedMovesCount ?? 0}
+                    resumeGame={resumeStoredGame}
+                    discardGame={discardStoredGame}
+                />
+
                 <FaucetDialog
+                    address={wallet?.address}
+                    fundsNeeded={fundsNeeded}
                     resyncGame={resyncGame}
                     isOpen={faucetModalOpen}
                     setIsOpen={setFaucetModalOpen}
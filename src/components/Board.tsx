@@ -1,23 +1,22 @@
 import FunPurpleButton from "./FunPurpleButton";
-
-type Tile = {
-    id: string;
-    value: number;
-    row: number;
-    col: number;
-    mergedFrom?: string[];
-    isNew?: boolean;
-};
+import { ArrowDown, ArrowLeft, ArrowRight, ArrowUp } from "lucide-react";
+import { Direction } from "@/utils/engine";
+import { Tile } from "@/utils/tiles";
 
 type BoardProps = {
     containerRef: any;
     score: number;
     tiles: Tile[];
     gameOver: boolean;
+    wonTile?: number | null;
+    keepGoing?: () => void;
     gameError: boolean;
     gameErrorText: string;
     resyncGame: () => void;
     initializeGame: () => void;
+    practice?: boolean;
+    undoMove?: () => void;
+    hint?: Direction | null;
 };
 
 export default function Board({
@@ -25,10 +24,15 @@ export default function Board({
     tiles,
     score,
     gameOver,
+    wonTile = null,
+    keepGoing,
     gameError,
     gameErrorText,
     resyncGame,
     initializeGame,
+    practice = false,
+    undoMove,
+    hint = null,
 }: BoardProps) {
     // Calculate the position of a tile
     const getTilePosition = (row: number, col: number) => {
@@ -70,6 +74,32 @@ export default function Board({
         }
     };
 
+    // Place the hint arrow on the edge the tiles will move towards
+    const getHintArrow = (direction: Direction) => {
+        switch (direction) {
+            case Direction.UP:
+                return {
+                    Icon: ArrowUp,
+                    position: "top-1 left-1/2 -translate-x-1/2",
+                };
+            case Direction.DOWN:
+                return {
+                    Icon: ArrowDown,
+                    position: "bottom-1 left-1/2 -translate-x-1/2",
+                };
+            case Direction.LEFT:
+                return {
+                    Icon: ArrowLeft,
+                    position: "left-1 top-1/2 -translate-y-1/2",
+                };
+            case Direction.RIGHT:
+                return {
+                    Icon: ArrowRight,
+                    position: "right-1 top-1/2 -translate-y-1/2",
+                };
+        }
+    };
+
     // Get the font size for a tile based on its value
     const getTileFontSize = (value: number) => {
         if (value < 100) return "text-3xl";
@@ -95,6 +125,13 @@ export default function Board({
                         ))}
                 </div>
 
+                {/* Practice badge */}
+                {practice && (
+                    <div className="absolute -top-3 left-3 z-30 px-2 py-0.5 rounded-md bg-yellow-400 text-purple-800 text-xs font-extrabold uppercase tracking-wider shadow">
+                        Practice
+                    </div>
+                )}
+
                 {/* Tiles */}
                 {tiles.map((tile: Tile) => (
                     <div
@@ -128,6 +165,19 @@ export default function Board({
                     </div>
                 ))}
 
+                {/* Hint */}
+                {hint !== null &&
+                    (() => {
+                        const { Icon, position } = getHintArrow(hint);
+                        return (
+                            <div
+                                className={`absolute ${position} z-[15] p-1 rounded-full bg-yellow-400 text-purple-800 shadow-lg animate-pulse pointer-events-none`}
+                            >
+                                <Icon className="h-8 w-8" />
+                            </div>
+                        );
+                    })()}
+
                 {/* Game over overlay */}
                 {gameOver && (
                     <div className="absolute inset-0 flex items-center justify-center rounded-lg z-20">
@@ -135,11 +185,50 @@ export default function Board({
                             <h2 className="text-2xl font-bold mb-4">
                                 Game Over!
                             </h2>
+                            {wonTile !== null && (
+                                <p className="mb-2 font-bold">
+                                    {wonTile === 2048
+                                        ? "You win!"
+                                        : `You reached ${wonTile}!`}
+                                </p>
+                            )}
                             <p className="mb-4">Your score: {score}</p>
                             <FunPurpleButton
                                 text="Play Again"
                                 onClick={initializeGame}
                             />
+                            {undoMove && (
+                                <button
+                                    className="block mx-auto mt-4 underline"
+                                    onClick={undoMove}
+                                >
+                                    Undo last move
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                )}
+
+                {/* Win overlay, folded into the game over one on a last move */}
+                {wonTile !== null && !gameOver && !gameError && (
+                    <div className="absolute inset-0 flex items-center justify-center rounded-lg z-20">
+                        <div className="p-6 bg-white rounded-lg text-center">
+                            <h2 className="text-2xl font-bold mb-4">
+                                {wonTile === 2048
+                                    ? "You win!"
+                                    : `You reached ${wonTile}!`}
+                            </h2>
+                            <p className="mb-4">Your score: {score}</p>
+                            <FunPurpleButton
+                                text="Keep going"
+                                onClick={keepGoing}
+                            />
+                            <button
+                                className="block mx-auto mt-4 underline"
+                                onClick={initializeGame}
+                            >
+                                Start new game
+                            </button>
                         </div>
                     </div>
                 )}
@@ -0,0 +1,45 @@
+// Hooks
+import { useSyncExternalStore } from "react";
+
+// Utils
+import { rpcPool } from "@/utils/client";
+import { EndpointStatus } from "@/utils/rpcPool";
+
+// Round trips above this many ms show as slow.
+const SLOW_LATENCY = 300;
+
+function hostOf(url: string) {
+    try {
+        return new URL(url).host;
+    } catch {
+        return url;
+    }
+}
+
+function describe({ url, latency, healthy }: EndpointStatus) {
+    const rtt = latency === undefined ? "…" : `${Math.round(latency)} ms`;
+    return `${hostOf(url)} · ${healthy ? rtt : "down"}`;
+}
+
+export default function ConnectionIndicator() {
+    const { active, endpoints } = useSyncExternalStore(
+        rpcPool.subscribe,
+        rpcPool.status
+    );
+
+    const color = !active.healthy
+        ? "bg-red-500"
+        : active.latency === undefined || active.latency > SLOW_LATENCY
+        ? "bg-yellow-400"
+        : "bg-green-500";
+
+    return (
+        <div
+            className="flex items-center gap-1.5 text-xs text-gray-500"
+            title={endpoints.map(describe).join("\n")}
+        >
+            <span className={`h-2 w-2 rounded-full ${color}`} />
+            {describe(active)}
+        </div>
+    );
+}
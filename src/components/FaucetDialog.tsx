@@ -12,41 +12,40 @@ import { Button } from "./ui/button";
 import { Copy, ArrowDownLeft, Loader2 } from "lucide-react";
 import { toast } from "sonner";
 import { useEffect, useState } from "react";
-import { usePrivy } from "@privy-io/react-auth";
-import { publicClient } from "@/utils/client";
+import { NETWORK, publicClient } from "@/utils/client";
 import { formatEther, Hex } from "viem";
-import { post } from "@/utils/fetch";
+import { FundsNeeded } from "@/hooks/useTransactions";
+
+const { currency } = NETWORK;
 
 export type FaucetDialogProps = {
+    address?: Hex; // the connected wallet, if any
+    fundsNeeded: FundsNeeded | null; // null until a move was unaffordable
     isOpen: boolean;
     resyncGame: () => Promise<void>;
     setIsOpen: (open: boolean) => void;
 };
 export function FaucetDialog({
+    address: playerAddress,
+    fundsNeeded,
     isOpen,
     setIsOpen,
     resyncGame,
 }: FaucetDialogProps) {
-    const { user } = usePrivy();
-
     const [address, setAddress] = useState("");
     const [balance, setBalance] = useState(0n);
     const [loading, setLoading] = useState(false);
 
     async function setupUser() {
-        if (!user) {
-            return;
-        }
-
-        if (!user.wallet) {
+        if (!playerAddress) {
             return;
         }
 
         const bal = await publicClient.getBalance({
-            address: user.wallet.address as Hex,
+            address: playerAddress,
         });
 
-        setAddress(user.wallet.address);
+        setAddress(playerAddress);
         setBalance(bal);
     }
 
@@ -56,34 +55,39 @@ export function FaucetDialog({
     };
 
     const handleFaucetRequest = async () => {
-        if (!user || !user.wallet) {
+        if (!playerAddress) {
             toast.error("Please log-in.");
             return;
         }
 
         if (parseFloat(formatEther(balance)) >= 0.5) {
-            toast.error("Balance already more than 0.5 MON.");
+            toast.error(`Balance already more than 0.5 ${currency}.`);
             return;
         }
 
         setLoading(true);
 
         try {
-            const response = await post({
-                url: import.meta.env.VITE_2048_FAUCET_URL,
-                params: {
-                    address: user.wallet.address,
-                },
+            // Sent once: a retried request could fund the player twice.
+            const response = await fetch(import.meta.env.VITE_2048_FAUCET_URL, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ address: playerAddress }),
             });
+            if (!response.ok) {
+                throw new Error(
+                    response.statusText || `HTTP error ${response.status}`
+                );
+            }
 
-            const transactionHash = response.txHash;
+            const transactionHash = (await response.json()).txHash;
             console.log("Funded tx: ", transactionHash);
 
             toast.success(`Player funded!`);
 
             await setupUser();
         } catch (e) {
-            console.log("Error fetching testnet MON: ", e);
+            console.log(`Error fetching testnet ${currency}: `, e);
             toast.error(`Failed to send transaction.`, {
                 description: `Error: ${(e as Error).message}`,
             });
@@ -95,19 +99,19 @@ export function FaucetDialog({
     useEffect(() => {
         if (!isOpen) return;
         handleFaucetRequest();
-    }, [user, isOpen]);
+    }, [playerAddress, isOpen]);
 
     useEffect(() => {
         if (!isOpen) return;
         setupUser();
-    }, [user, isOpen]);
+    }, [playerAddress, isOpen]);
 
     const abbreviatedAddress = address
         ? `${address.slice(0, 4)}...${address.slice(-2)}`
         : "";
 
     const copyToClipboard = async () => {
-        if (user?.wallet?.address) {
+        if (playerAddress) {
             await navigator.clipboard.writeText(address);
             toast.info("Copied to clipboard.");
         }
@@ -115,12 +119,27 @@ export function FaucetDialog({
 
     const alreadyFunded = parseFloat(formatEther(balance)) >= 0.5;
 
+    // Against the balance read here, which moves on as the player funds it.
+    const shortfall = fundsNeeded ? fundsNeeded.required - balance : 0n;
+    let title = `You need more ${currency} to play moves.`;
+    if (fundsNeeded) {
+        const perMove = `Moves cost about ${formatEther(
+            fundsNeeded.costPerMove
+        )} ${currency} each.`;
+        title =
+            shortfall > 0n
+                ? `${perMove} You need ${formatEther(
+                      shortfall
+                  )} ${currency} more to play.`
+                : `${perMove} Your balance now covers them.`;
+    }
+
     return (
         <AlertDialog open={isOpen}>
             <AlertDialogContent className="bg-yellow-600 w-[95vw] max-w-md sm:max-w-lg rounded-lg px-4 py-6 overflow-y-auto max-h-[90vh]">
                 <AlertDialogHeader>
                     <AlertDialogTitle className="text-black">
-                        You need at least 0.1 MON to play moves.
+                        {title}
                     </AlertDialogTitle>
                     <AlertDialogDescription asChild>
                         <div className="flex flex-col gap-3 text-sm sm:text-base text-gray-800">
@@ -143,12 +162,12 @@ export function FaucetDialog({
                                 <span className="text-gray-800 font-bold">
                                     Balance
                                 </span>
-                                : {formatEther(balance)} MON
+                                : {formatEther(balance)} {currency}
                             </div>
                             <p>
-                                Fund your player address with testnet MON
-                                directly via your external wallet, or get 0.5
-                                MON from the game faucet.
+                                Fund your player address with testnet {currency}{" "}
+                                directly via your external wallet, or get 0.5{" "}
+                                {currency} from the game faucet.
                             </p>
                         </div>
                     </AlertDialogDescription>
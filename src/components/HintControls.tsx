@@ -0,0 +1,59 @@
+// UI
+import { Button } from "./ui/button";
+import { Lightbulb, Loader2, Pause, Play } from "lucide-react";
+
+type HintControlsProps = {
+    thinking: boolean;
+    autoPlay: boolean;
+    exact: boolean;
+    exactAvailable: boolean;
+    showHint: () => void;
+    setAutoPlay: (autoPlay: boolean) => void;
+    setExact: (exact: boolean) => void;
+};
+
+export default function HintControls({
+    thinking,
+    autoPlay,
+    exact,
+    exactAvailable,
+    showHint,
+    setAutoPlay,
+    setExact,
+}: HintControlsProps) {
+    return (
+        <div className="flex items-center justify-center gap-2 mb-2 text-sm">
+            <Button
+                variant="ghost"
+                onClick={showHint}
+                disabled={thinking || autoPlay}
+            >
+                {thinking ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                    <Lightbulb className="h-4 w-4" />
+                )}
+                Hint
+            </Button>
+            <Button variant="ghost" onClick={() => setAutoPlay(!autoPlay)}>
+                {autoPlay ? (
+                    <Pause className="h-4 w-4" />
+                ) : (
+                    <Play className="h-4 w-4" />
+                )}
+                {autoPlay ? "Stop auto-play" : "Auto-play"}
+            </Button>
+            {exactAvailable && (
+                <label className="flex items-center gap-1 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={exact}
+                        onChange={(e) => setExact(e.target.checked)}
+                        className="accent-purple-600"
+                    />
+                    Exact lookahead
+                </label>
+            )}
+        </div>
+    );
+}
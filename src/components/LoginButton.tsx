@@ -1,6 +1,5 @@
 // Hooks
 import { useState } from "react";
-import { useLogin, useLogout, usePrivy } from "@privy-io/react-auth";
 
 // UI
 import { toast } from "sonner";
@@ -9,15 +8,32 @@ import { Button } from "./ui/button";
 import { Copy } from "lucide-react";
 
 type LoginButtonProps = {
+    address?: string; // the connected wallet, if any
+    login: () => void;
+    loginWithDevSigner?: () => void; // only offered in development
+    enableSession?: () => Promise<void>; // only offered to injected wallets
+    disableSession?: () => Promise<void>; // while a session key plays
+    sponsored?: boolean; // moves are paid for by the relayer
+    setSponsored?: (sponsored: boolean) => void; // only with a relayer
+    logout: () => Promise<void>;
     resetGame: () => void;
+    movesRemaining?: number | null;
 };
 
-export default function LoginButton({ resetGame }: LoginButtonProps) {
-    const { login } = useLogin();
-    const { logout } = useLogout();
-    const { user, authenticated } = usePrivy();
-
+export default function LoginButton({
+    address,
+    login,
+    loginWithDevSigner,
+    enableSession,
+    disableSession,
+    sponsored = false,
+    setSponsored,
+    logout,
+    resetGame,
+    movesRemaining = null,
+}: LoginButtonProps) {
     const [loginLoading, setLoginLoading] = useState(false);
+    const [sessionLoading, setSessionLoading] = useState(false);
 
     const handleLogin = async () => {
         setLoginLoading(true);
@@ -31,22 +47,43 @@ export default function LoginButton({ resetGame }: LoginButtonProps) {
         }
     };
 
+    const toggleSession = async () => {
+        setSessionLoading(true);
+
+        try {
+            if (enableSession) {
+                await enableSession();
+                toast.success("Fast play enabled.", {
+                    description: "Moves no longer need a wallet popup.",
+                });
+            } else {
+                await disableSession?.();
+                toast.info("Fast play disabled.");
+            }
+        } catch (err) {
+            console.log("Problem changing fast play: ", err);
+            toast.error("Failed to enable fast play.", {
+                description: `Error: ${(err as Error).message}`,
+            });
+        } finally {
+            setSessionLoading(false);
+        }
+    };
+
     const copyToClipboard = async () => {
-        if (user?.wallet?.address) {
-            await navigator.clipboard.writeText(user.wallet.address);
+        if (address) {
+            await navigator.clipboard.writeText(address);
             toast.info("Copied to clipboard.");
         }
     };
 
-    const abbreviatedAddress = user?.wallet?.address
-        ? `${user.wallet.address.slice(0, 4)}...${user.wallet.address.slice(
-              -2
-          )}`
+    const abbreviatedAddress = address
+        ? `${address.slice(0, 4)}...${address.slice(-2)}`
         : "";
 
     return (
         <>
-            {user && authenticated ? (
+            {address ? (
                 <div className="flex flex-col items-center">
                     <FunPurpleButton text="New Game" onClick={resetGame} />
                     <Button
@@ -56,6 +93,27 @@ export default function LoginButton({ resetGame }: LoginButtonProps) {
                     >
                         Logout
                     </Button>
+                    {(enableSession || disableSession) && (
+                        <Button
+                            variant="ghost"
+                            className="underline"
+                            disabled={sessionLoading}
+                            onClick={toggleSession}
+                        >
+                            {enableSession
+                                ? "Enable fast play"
+                                : "Disable fast play"}
+                        </Button>
+                    )}
+                    {setSponsored && (
+                        <Button
+                            variant="ghost"
+                            className="underline"
+                            onClick={() => setSponsored(!sponsored)}
+                        >
+                            {sponsored ? "Pay for moves" : "Play sponsored"}
+                        </Button>
+                    )}
                     <div className="flex items-center gap-2">
                         <p>
                             <span className="font-bold">Player</span>:{" "}
@@ -70,14 +128,31 @@ export default function LoginButton({ resetGame }: LoginButtonProps) {
                             <Copy className="h-4 w-4" />
                         </Button>
                     </div>
+                    {movesRemaining !== null && (
+                        <p className="text-sm">
+                            <span className="font-bold">Moves left</span>: ~
+                            {movesRemaining.toLocaleString()}
+                        </p>
+                    )}
                 </div>
             ) : (
-                <FunPurpleButton
-                    text="Login"
-                    loadingText="Creating player..."
-                    isLoading={loginLoading}
-                    onClick={handleLogin}
-                />
+                <div className="flex flex-col items-center">
+                    <FunPurpleButton
+                        text="Login"
+                        loadingText="Creating player..."
+                        isLoading={loginLoading}
+                        onClick={handleLogin}
+                    />
+                    {loginWithDevSigner && (
+                        <Button
+                            variant="ghost"
+                            className="underline"
+                            onClick={loginWithDevSigner}
+                        >
+                            Use dev signer
+                        </Button>
+                    )}
+                </div>
             )}
         </>
     );
@@ -0,0 +1,31 @@
+// Utils
+import { chooseNetwork, NETWORK } from "@/utils/client";
+import { NetworkId, NETWORKS, resolveNetwork } from "@/utils/networks";
+
+// Networks with a deployment to play on.
+const PLAYABLE = Object.values(NETWORKS).filter(({ id }) => {
+    try {
+        resolveNetwork(import.meta.env, id);
+        return true;
+    } catch {
+        return false;
+    }
+});
+
+// Switches networks in development; the page reloads on the new one.
+export default function NetworkPicker() {
+    return (
+        <select
+            aria-label="Network"
+            className="text-xs text-gray-500 bg-transparent cursor-pointer"
+            value={NETWORK.id}
+            onChange={(event) => chooseNetwork(event.target.value as NetworkId)}
+        >
+            {PLAYABLE.map(({ id, name }) => (
+                <option key={id} value={id}>
+                    {name}
+                </option>
+            ))}
+        </select>
+    );
+}
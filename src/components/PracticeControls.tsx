@@ -0,0 +1,55 @@
+// UI
+import FunPurpleButton from "./FunPurpleButton";
+import { Button } from "./ui/button";
+import { Redo2, Undo2 } from "lucide-react";
+
+type PracticeControlsProps = {
+    canUndo: boolean;
+    canRedo: boolean;
+    resetGame: () => void;
+    undo: () => void;
+    redo: () => void;
+    exitPractice: () => void;
+};
+
+export default function PracticeControls({
+    canUndo,
+    canRedo,
+    resetGame,
+    undo,
+    redo,
+    exitPractice,
+}: PracticeControlsProps) {
+    return (
+        <div className="flex flex-col items-center">
+            <FunPurpleButton text="New Game" onClick={resetGame} />
+            <div className="flex items-center gap-2 mt-2">
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={undo}
+                    disabled={!canUndo}
+                    aria-label="Undo move"
+                >
+                    <Undo2 className="h-4 w-4" />
+                </Button>
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={redo}
+                    disabled={!canRedo}
+                    aria-label="Redo move"
+                >
+                    <Redo2 className="h-4 w-4" />
+                </Button>
+            </div>
+            <Button
+                variant="ghost"
+                className="underline"
+                onClick={exitPractice}
+            >
+                Exit practice
+            </Button>
+        </div>
+    );
+}
@@ -0,0 +1,257 @@
+// Hooks
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// UI
+import Board from "./Board";
+import FunPurpleButton from "./FunPurpleButton";
+import { Button } from "./ui/button";
+import { toast } from "sonner";
+import { Pause, Play, SkipBack, SkipForward } from "lucide-react";
+
+// Utils
+import { Hex, isHex } from "viem";
+import { Direction, MILESTONES } from "@/utils/engine";
+import { fetchGameReplay, ReplayFrame } from "@/utils/replay";
+import {
+    loadAllMilestones,
+    loadMilestones,
+    MilestoneRecord,
+} from "@/utils/storage";
+import { moveTiles, Tile, tilesFromBoard } from "@/utils/tiles";
+
+const PLAYBACK_INTERVAL = 400; // ms per move
+
+const DIRECTION_NAMES: Record<Direction, string> = {
+    [Direction.UP]: "Up",
+    [Direction.DOWN]: "Down",
+    [Direction.LEFT]: "Left",
+    [Direction.RIGHT]: "Right",
+};
+
+// How many games played on-chain from this device reached each milestone.
+function gamesReaching(): Record<number, number> {
+    const counts: Record<number, number> = {};
+    for (const records of Object.values(loadAllMilestones())) {
+        for (const { tile, practice } of records) {
+            if (!practice) counts[tile] = (counts[tile] ?? 0) + 1;
+        }
+    }
+    return counts;
+}
+
+type ReplayViewerProps = {
+    initialGameId: Hex;
+    close: () => void;
+};
+
+export default function ReplayViewer({
+    initialGameId,
+    close,
+}: ReplayViewerProps) {
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    const [gameId, setGameId] = useState<string>(
+        initialGameId === "0x" ? "" : initialGameId
+    );
+    const [loading, setLoading] = useState<boolean>(false);
+    const [frames, setFrames] = useState<ReplayFrame[]>([]);
+    const [index, setIndex] = useState<number>(0);
+    const [tiles, setTiles] = useState<Tile[]>([]);
+    const [playing, setPlaying] = useState<boolean>(false);
+    // Recorded by this device while the game was played; not on-chain.
+    const [milestones, setMilestones] = useState<MilestoneRecord[]>([]);
+    const [reached] = useState(gamesReaching);
+
+    const loadReplay = async () => {
+        if (!isHex(gameId) || gameId.length !== 66) {
+            toast.error("Enter a valid game ID.");
+            return;
+        }
+
+        setLoading(true);
+        setPlaying(false);
+
+        try {
+            const replay = await fetchGameReplay(gameId);
+            setFrames(replay);
+            setMilestones(loadMilestones(gameId));
+            setIndex(0);
+            setTiles(tilesFromBoard(replay[0].board));
+
+            if (replay.some((frame) => !frame.verified)) {
+                toast.warning("Some moves do not match the game rules.");
+            }
+        } catch (e) {
+            console.log("Error loading replay: ", e);
+            toast.error(`Failed to load replay.`, {
+                description: `Error: ${(e as Error).message}`,
+            });
+        }
+
+        setLoading(false);
+    };
+
+    // Show a frame, sliding the tiles when stepping forward by one move.
+    const showFrame = useCallback(
+        (next: number) => {
+            const frame = frames[next];
+            if (!frame) return;
+
+            setTiles((current) =>
+                next === index + 1 && frame.move !== null
+                    ? moveTiles(current, frame.move, frame.board)
+                    : tilesFromBoard(frame.board, false)
+            );
+            setIndex(next);
+        },
+        [frames, index]
+    );
+
+    // Advance while playing, stopping on the last move.
+    useEffect(() => {
+        if (!playing) return;
+        if (index >= frames.length - 1) {
+            setPlaying(false);
+            return;
+        }
+
+        const timeout = setTimeout(
+            () => showFrame(index + 1),
+            PLAYBACK_INTERVAL
+        );
+        return () => clearTimeout(timeout);
+    }, [playing, index, frames, showFrame]);
+
+    const togglePlayback = () => {
+        // Start over when playing from the last move.
+        if (!playing && index >= frames.length - 1) {
+            showFrame(0);
+        }
+        setPlaying(!playing);
+    };
+
+    const frame = frames[index];
+
+    return (
+        <div className="flex flex-col gap-3">
+            <div className="flex items-center gap-2">
+                <input
+                    className="flex-1 min-w-0 rounded-md border border-gray-300 bg-white px-2 py-1 text-sm font-mono"
+                    placeholder="Game ID (0x...)"
+                    value={gameId}
+                    onChange={(e) => setGameId(e.target.value.trim())}
+                />
+                <FunPurpleButton
+                    text="Load"
+                    loadingText="Loading..."
+                    isLoading={loading}
+                    onClick={loadReplay}
+                />
+            </div>
+
+            <Board
+                containerRef={containerRef}
+                tiles={tiles}
+                score={frame?.score ?? 0}
+                gameOver={false}
+                gameError={false}
+                gameErrorText=""
+                resyncGame={() => {}}
+                initializeGame={() => {}}
+            />
+
+            <div className="flex items-center justify-between text-sm">
+                <p>
+                    <span className="font-bold">Move</span>:{" "}
+                    {frame ? `${frame.moveNumber} / ${frames.length - 1}` : "-"}
+                    {frame?.move != null && ` (${DIRECTION_NAMES[frame.move]})`}
+                    {frame && !frame.verified && (
+                        <span className="text-red-600 font-bold"> invalid</span>
+                    )}
+                </p>
+                <p>
+                    <span className="font-bold">Score</span>:{" "}
+                    {frame?.score ?? 0}
+                </p>
+            </div>
+
+            <input
+                type="range"
+                min={0}
+                max={Math.max(frames.length - 1, 0)}
+                value={index}
+                disabled={frames.length === 0}
+                onChange={(e) => {
+                    setPlaying(false);
+                    showFrame(parseInt(e.target.value));
+                }}
+                className="w-full accent-purple-600"
+            />
+
+            {frames.length > 0 && milestones.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="font-bold">Milestones</span>:
+                    {milestones.map(({ tile, moveNumber }) => (
+                        <Button
+                            key={tile}
+                            variant="ghost"
+                            className="underline h-auto px-1 py-0"
+                            onClick={() => {
+                                setPlaying(false);
+                                showFrame(moveNumber);
+                            }}
+                        >
+                            {tile} at move {moveNumber}
+                        </Button>
+                    ))}
+                </div>
+            )}
+
+            <div className="flex items-center justify-center gap-2">
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => showFrame(index - 1)}
+                    disabled={index === 0}
+                    aria-label="Previous move"
+                >
+                    <SkipBack className="h-4 w-4" />
+                </Button>
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={togglePlayback}
+                    disabled={frames.length === 0}
+                    aria-label={playing ? "Pause replay" : "Play replay"}
+                >
+                    {playing ? (
+                        <Pause className="h-4 w-4" />
+                    ) : (
+                        <Play className="h-4 w-4" />
+                    )}
+                </Button>
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => showFrame(index + 1)}
+                    disabled={index >= frames.length - 1}
+                    aria-label="Next move"
+                >
+                    <SkipForward className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" className="underline" onClick={close}>
+                    Close replay
+                </Button>
+            </div>
+
+            {MILESTONES.some((tile) => reached[tile]) && (
+                <p className="text-sm text-center">
+                    <span className="font-bold">Games reaching</span>:{" "}
+                    {MILESTONES.filter((tile) => reached[tile])
+                        .map((tile) => `${tile} × ${reached[tile]}`)
+                        .join(", ")}
+                </p>
+            )}
+        </div>
+    );
+}
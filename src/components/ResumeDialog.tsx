@@ -0,0 +1,78 @@
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "./ui/button";
+import { Play } from "lucide-react";
+
+export type ResumeDialogProps = {
+    isOpen: boolean;
+    score: number;
+    moveCount: number;
+    resumeGame: () => void;
+    discardGame: () => void;
+};
+export function ResumeDialog({
+    isOpen,
+    score,
+    moveCount,
+    resumeGame,
+    discardGame,
+}: ResumeDialogProps) {
+    return (
+        <AlertDialog open={isOpen}>
+            <AlertDialogContent className="bg-yellow-600 w-[95vw] max-w-md sm:max-w-lg rounded-lg px-4 py-6 overflow-y-auto max-h-[90vh]">
+                <AlertDialogHeader>
+                    <AlertDialogTitle className="text-black">
+                        You have an unfinished game.
+                    </AlertDialogTitle>
+                    <AlertDialogDescription asChild>
+                        <div className="flex flex-col gap-3 text-sm sm:text-base text-gray-800">
+                            <div className="text-purple-800">
+                                <span className="text-gray-800 font-bold">
+                                    Score
+                                </span>
+                                : {score}
+                            </div>
+                            <div className="text-purple-800">
+                                <span className="text-gray-800 font-bold">
+                                    Moves
+                                </span>
+                                : {moveCount}
+                            </div>
+                            <p>
+                                Pick up where you left off, or abandon it and
+                                start a new game.
+                            </p>
+                        </div>
+                    </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                    <AlertDialogCancel
+                        onClick={discardGame}
+                        className="bg-blue-500 text-white hover:bg-blue-600"
+                    >
+                        Discard
+                    </AlertDialogCancel>
+                    <AlertDialogAction asChild>
+                        <Button
+                            className="outline outline-white bg-purple-600 text-white hover:bg-purple-700"
+                            onClick={resumeGame}
+                        >
+                            <div className="flex gap-2">
+                                <p>Resume game</p>
+                                <Play />
+                            </div>
+                        </Button>
+                    </AlertDialogAction>
+                </AlertDialogFooter>
+            </AlertDialogContent>
+        </AlertDialog>
+    );
+}
@@ -0,0 +1,73 @@
+import { Direction } from "@/utils/engine";
+import { HintRequest, HintResponse } from "@/utils/search";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export function useHint() {
+    const worker = useRef<Worker | null>(null);
+    const pending = useRef(new Map<number, (move: Direction | null) => void>());
+    const latestId = useRef(0);
+
+    const [hint, setHint] = useState<Direction | null>(null);
+    const [thinking, setThinking] = useState<boolean>(false);
+
+    // Spawn the search worker once.
+    useEffect(() => {
+        const hintWorker = new Worker(
+            new URL("../workers/hint.worker.ts", import.meta.url),
+            { type: "module" }
+        );
+        const requests = pending.current;
+
+        hintWorker.onmessage = (event: MessageEvent<HintResponse>) => {
+            const { id, move } = event.data;
+            requests.get(id)?.(move);
+            requests.delete(id);
+        };
+        worker.current = hintWorker;
+
+        return () => {
+            hintWorker.terminate();
+            worker.current = null;
+            requests.forEach((resolve) => resolve(null));
+            requests.clear();
+        };
+    }, []);
+
+    // Resolves with the suggested move. Only the latest request updates `hint`.
+    // Stable, as it only touches refs and state setters.
+    const requestHint = useCallback(
+        (request: Omit<HintRequest, "id">): Promise<Direction | null> => {
+            const hintWorker = worker.current;
+            if (!hintWorker) return Promise.resolve(null);
+
+            const id = ++latestId.current;
+            setThinking(true);
+
+            return new Promise((resolve) => {
+                pending.current.set(id, (move) => {
+                    if (id === latestId.current) {
+                        setHint(move);
+                        setThinking(false);
+                    }
+                    resolve(move);
+                });
+                hintWorker.postMessage({ ...request, id });
+            });
+        },
+        []
+    );
+
+    // Hides the current hint and ignores any search still in flight.
+    function clearHint() {
+        latestId.current++;
+        setHint(null);
+        setThinking(false);
+    }
+
+    return {
+        hint,
+        thinking,
+        requestHint,
+        clearHint,
+    };
+}
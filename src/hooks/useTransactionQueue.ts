@@ -0,0 +1,363 @@
+import { publicClient } from "@/utils/client";
+import {
+    Confirmation,
+    ConfirmationPath,
+    RECEIPT_PATH,
+    SentTransaction,
+    waitForReceipt,
+} from "@/utils/confirmation";
+import {
+    AlreadyKnownError,
+    NonceTooLowError,
+    UnderpricedError,
+} from "@/utils/jsonRpc";
+import {
+    deleteQueuedTransaction,
+    loadQueuedTransactions,
+    QueuedTransaction,
+    reserveNonce,
+    saveQueuedTransaction,
+    setNextNonce,
+} from "@/utils/transactionStore";
+import { useRef } from "react";
+import { Hex, keccak256, WaitForTransactionReceiptTimeoutError } from "viem";
+
+// The gas limit and fees a transaction is signed with.
+export type GasParams = {
+    gas: bigint;
+    maxFeePerGas: bigint;
+    maxPriorityFeePerGas: bigint;
+};
+
+// The fields a transaction is signed with, besides its fixed recipient.
+export type SignRequest = GasParams & {
+    data: Hex;
+    nonce: number;
+};
+
+export type QueueRequest = {
+    player: Hex;
+    gameId: Hex;
+    moveNumber: number;
+    move: number;
+    board: bigint;
+    data: Hex;
+};
+
+export type BroadcastTransaction = {
+    transaction: QueuedTransaction;
+    path: ConfirmationPath;
+};
+
+type QueueOptions = {
+    signTransaction: (request: SignRequest) => Promise<Hex>;
+    sendRawTransaction: (signedTransaction: Hex) => Promise<SentTransaction>;
+    // Throws if the request would fail on top of the queued transactions.
+    simulate: (
+        request: QueueRequest & GasParams,
+        queued: QueuedTransaction[]
+    ) => Promise<void>;
+};
+
+// Blocks arrive every few milliseconds, so a transaction without a receipt
+// after this long has been dropped or is stuck behind its fees.
+const STUCK_TIMEOUT = 10_000;
+const MAX_RECOVERIES = 3;
+
+// Replacements must raise both fees by at least 10%.
+const FEE_BUMP_PERCENT = 125n;
+
+/**
+ * Sends game transactions strictly in nonce order. Every transaction is
+ * persisted once signed and removed once mined, so pending moves survive a
+ * reload and can be re-broadcast or re-signed by `restore`.
+ */
+export function useTransactionQueue({
+    signTransaction,
+    sendRawTransaction,
+    simulate,
+}: QueueOptions) {
+    // Each transaction is prepared, signed and broadcast after the previous.
+    const sendChain = useRef<Promise<unknown>>(Promise.resolve());
+    const restoring = useRef<Promise<void>>(Promise.resolve());
+    // Receipts that came back with the broadcast, by transaction hash.
+    const inlineConfirmations = useRef(new Map<Hex, Confirmation>());
+
+    // Broadcasts a signed transaction, tolerating nodes that already have it.
+    async function broadcast(
+        transaction: QueuedTransaction
+    ): Promise<BroadcastTransaction> {
+        let path = RECEIPT_PATH;
+        try {
+            const sent = await sendRawTransaction(
+                transaction.signedTransaction
+            );
+            path = sent.path;
+
+            const { receipt } = sent;
+            if (receipt) {
+                inlineConfirmations.current.set(transaction.hash, {
+                    receipt,
+                    path,
+                });
+            }
+        } catch (error) {
+            // Already in the pool, or its nonce already mined, which
+            // `confirm` sorts out.
+            if (
+                !(error instanceof AlreadyKnownError) &&
+                !(
+                    error instanceof NonceTooLowError &&
+                    transaction.broadcasts > 0
+                )
+            ) {
+                throw error;
+            }
+        }
+
+        const updated = {
+            ...transaction,
+            broadcasts: transaction.broadcasts + 1,
+        };
+        await saveQueuedTransaction(updated);
+        return { transaction: updated, path };
+    }
+
+    /**
+     * Takes the request's place in the queue at once, so transactions go
+     * out in the order they are enqueued whatever they wait on. Once every
+     * earlier one is out, its gas is resolved and it is simulated, given
+     * the next nonce, signed, persisted and broadcast.
+     */
+    function enqueue(
+        request: QueueRequest,
+        resolveGas: () => Promise<GasParams>
+    ): Promise<BroadcastTransaction> {
+        const previous = sendChain.current;
+
+        const sent = (async () => {
+            await restoring.current;
+            await previous.catch(() => {});
+
+            // Everything ahead of the request is persisted by now.
+            const gasParams = await resolveGas();
+            await simulate(
+                { ...request, ...gasParams },
+                await loadQueuedTransactions(request.player)
+            );
+
+            const nonce = await reserveNonce(request.player);
+            let signedTransaction: Hex;
+            try {
+                signedTransaction = await signTransaction({
+                    data: request.data,
+                    nonce,
+                    ...gasParams,
+                });
+            } catch (error) {
+                // Hand the nonce back so later moves do not leave a gap.
+                await setNextNonce(request.player, nonce);
+                throw error;
+            }
+
+            const transaction: QueuedTransaction = {
+                ...request,
+                ...gasParams,
+                nonce,
+                signedTransaction,
+                hash: keccak256(signedTransaction),
+                previousHashes: [],
+                broadcasts: 0,
+                createdAt: Date.now(),
+            };
+            await saveQueuedTransaction(transaction);
+
+            return broadcast(transaction);
+        })();
+
+        sendChain.current = sent;
+        return sent;
+    }
+
+    async function findReceipt(transaction: QueuedTransaction) {
+        for (const hash of [transaction.hash, ...transaction.previousHashes]) {
+            const receipt = await publicClient
+                .getTransactionReceipt({ hash })
+                .catch(() => null);
+            if (receipt) return receipt;
+        }
+        return null;
+    }
+
+    /**
+     * Recovers a transaction without a receipt: dropped transactions are
+     * re-broadcast and stuck ones re-signed with higher fees. Returns the
+     * receipt instead if any version of the transaction was mined.
+     */
+    async function recover(
+        transaction: QueuedTransaction
+    ): Promise<Confirmation | QueuedTransaction> {
+        const minedNonce = await publicClient.getTransactionCount({
+            address: transaction.player,
+        });
+        if (minedNonce > transaction.nonce) {
+            const receipt = await findReceipt(transaction);
+            if (receipt) return { receipt, path: "polling" };
+
+            await deleteQueuedTransaction(
+                transaction.player,
+                transaction.nonce
+            );
+            throw Error(
+                `Transaction with nonce ${transaction.nonce} was replaced.`
+            );
+        }
+
+        const pending = await publicClient
+            .getTransaction({ hash: transaction.hash })
+            .catch(() => null);
+        if (!pending) {
+            console.warn(
+                `Re-broadcasting dropped transaction: ${transaction.hash}`
+            );
+            return (await broadcast(transaction)).transaction;
+        }
+
+        const maxFeePerGas =
+            (transaction.maxFeePerGas * FEE_BUMP_PERCENT) / 100n;
+        const maxPriorityFeePerGas =
+            (transaction.maxPriorityFeePerGas * FEE_BUMP_PERCENT) / 100n;
+        const signedTransaction = await signTransaction({
+            data: transaction.data,
+            nonce: transaction.nonce,
+            gas: transaction.gas,
+            maxFeePerGas,
+            maxPriorityFeePerGas,
+        });
+        console.warn(`Re-signing stuck transaction: ${transaction.hash}`);
+
+        try {
+            const { transaction: replacement } = await broadcast({
+                ...transaction,
+                maxFeePerGas,
+                maxPriorityFeePerGas,
+                signedTransaction,
+                hash: keccak256(signedTransaction),
+                previousHashes: [
+                    transaction.hash,
+                    ...transaction.previousHashes,
+                ],
+            });
+            return replacement;
+        } catch (error) {
+            // The node keeps the original, so it is waited on once more.
+            if (!(error instanceof UnderpricedError)) throw error;
+            console.warn("Fee bump too small to replace:", error.message);
+            return transaction;
+        }
+    }
+
+    // Resolves with the receipt, and how it arrived, once a queued
+    // transaction is mined.
+    async function confirm(
+        transaction: QueuedTransaction
+    ): Promise<Confirmation> {
+        let current = transaction;
+        for (let recoveries = 0; ; recoveries++) {
+            let result: Confirmation | QueuedTransaction;
+            try {
+                result =
+                    inlineConfirmations.current.get(current.hash) ??
+                    (await waitForReceipt(current.hash, STUCK_TIMEOUT));
+            } catch (error) {
+                if (!(error instanceof WaitForTransactionReceiptTimeoutError)) {
+                    throw error;
+                }
+                if (recoveries === MAX_RECOVERIES) {
+                    throw Error(
+                        `Transaction with nonce ${current.nonce} is stuck.`
+                    );
+                }
+                result = await recover(current);
+            }
+
+            if ("signedTransaction" in result) {
+                current = result;
+                continue;
+            }
+
+            inlineConfirmations.current.delete(current.hash);
+            await deleteQueuedTransaction(current.player, current.nonce);
+            return result;
+        }
+    }
+
+    /**
+     * Picks a player's queue back up after a reload or a re-sync. Mined
+     * transactions are dropped, the unbroken run of pending ones from the
+     * chain's nonce is re-broadcast and awaited, and the nonce counter is
+     * moved past everything the chain and the queue know about.
+     */
+    function restore(player: Hex): Promise<void> {
+        const restored = (async () => {
+            const [minedNonce, pendingNonce, queued] = await Promise.all([
+                publicClient.getTransactionCount({ address: player }),
+                publicClient.getTransactionCount({
+                    address: player,
+                    blockTag: "pending",
+                }),
+                loadQueuedTransactions(player),
+            ]);
+
+            const resumable: QueuedTransaction[] = [];
+            for (const transaction of queued) {
+                if (transaction.nonce === minedNonce + resumable.length) {
+                    resumable.push(transaction);
+                } else {
+                    // Mined already, or stranded behind a nonce that never will be.
+                    await deleteQueuedTransaction(player, transaction.nonce);
+                }
+            }
+
+            await setNextNonce(
+                player,
+                Math.max(pendingNonce, minedNonce + resumable.length)
+            );
+
+            // Broadcast in nonce order, then wait for all of them together.
+            const broadcasted: QueuedTransaction[] = [];
+            for (const transaction of resumable) {
+                try {
+                    broadcasted.push(
+                        (await broadcast(transaction)).transaction
+                    );
+                } catch (error) {
+                    // It may have been mined meanwhile; `confirm` finds out.
+                    console.warn("Failed to re-broadcast transaction:", error);
+                    broadcasted.push(transaction);
+                }
+            }
+
+            const results = await Promise.allSettled(broadcasted.map(confirm));
+            results.forEach((result) => {
+                if (result.status === "rejected") {
+                    console.warn(
+                        "Failed to resume transaction:",
+                        result.reason
+                    );
+                }
+            });
+        })();
+
+        restoring.current = restored.catch((error) =>
+            console.warn("Failed to restore transaction queue:", error)
+        );
+        return restoring.current;
+    }
+
+    return {
+        enqueue,
+        confirm,
+        restore,
+    };
+}
@@ -1,90 +1,203 @@
 import { Button } from "@/components/ui/button";
-import { publicClient } from "@/utils/client";
+import {
+    GasParams,
+    QueueRequest,
+    SignRequest,
+    useTransactionQueue,
+} from "@/hooks/useTransactionQueue";
+import { GameWallet } from "@/hooks/useWallet";
+import { MEGAETH2048_ABI } from "@/utils/abi";
+import { NETWORK, publicClient } from "@/utils/client";
 import { GAME_CONTRACT_ADDRESS } from "@/utils/constants";
-import { post } from "@/utils/fetch";
-import { usePrivy, useWallets } from "@privy-io/react-auth";
+import {
+    Confirmation,
+    ConfirmationPath,
+    RECEIPT_PATH,
+    sendRawTransaction,
+    waitForReceipt,
+} from "@/utils/confirmation";
+import {
+    decodeGameError,
+    GameError,
+    InsufficientFundsError,
+} from "@/utils/errors";
+import { megaEth2048 } from "@/utils/megaeth2048";
+import { explorerUrl } from "@/utils/networks";
+import { getRelayerPlayer, relay, signGameCall } from "@/utils/relayer";
+import { simulateTransaction } from "@/utils/simulation";
 import { ExternalLink } from "lucide-react";
-import { useEffect, useRef } from "react";
+import { useEffect, useRef, useState } from "react";
 import { toast } from "sonner";
-import {
-    createWalletClient,
-    custom,
-    encodeFunctionData,
-    formatEther,
-    Hex,
-    parseEther,
-    parseGwei,
-} from "viem";
-import { waitForTransactionReceipt } from "viem/actions";
-import { megaethTestnet } from "viem/chains";
-
-export function useTransactions() {
-    // User and Wallet objects.
-    const { user } = usePrivy();
-    const { ready, wallets } = useWallets();
-
-    // Fetch user nonce on new login.
-    const userNonce = useRef(0);
+import { Hex, parseEventLogs, parseGwei, TransactionReceipt } from "viem";
+
+export type BatchOptions = {
+    size: number; // send as soon as this many moves are gathered
+    window: number; // ms to wait for more moves after the first one
+};
+
+// The board the contract stored for a move, as its receipt reports it.
+export type ConfirmedMove = {
+    moveNumber: number;
+    board: bigint;
+    score?: number; // not reported for the opening moves
+};
+
+// The cost of an unaffordable transaction, as projected from recent moves.
+export type FundsNeeded = {
+    costPerMove: bigint;
+    required: bigint; // balance that covers it and the pending transactions
+};
+
+// A move waiting in the current batch, settled once its batch confirms.
+type PendingMove = {
+    gameId: Hex;
+    board: bigint;
+    move: number;
+    moveCount: number;
+    resolve: (confirmed: ConfirmedMove) => void;
+    reject: (error: Error) => void;
+};
+
+// Gas for a batch when it cannot be estimated, e.g. while earlier moves
+// are still pending.
+const BATCH_BASE_GAS = 40000n;
+const BATCH_MOVE_GAS = 60000n;
+
+// Number of recent receipts the moves-remaining projection averages over.
+const MOVE_COST_SAMPLES = 20;
+
+// Transactions sent by the wallet itself are not recovered by the queue,
+// so their receipts are simply waited for this long.
+const WALLET_CONFIRM_TIMEOUT = 60_000;
+
+// Signed moves the relayer has not submitted by then are void.
+const SIGNATURE_TTL = 10n * 60n;
+
+// A transaction on its way, however it was sent.
+type SentGameTransaction = {
+    hash: Hex;
+    data: Hex; // calldata actually sent, replayed to find a revert reason
+    path: ConfirmationPath;
+    confirm: () => Promise<Confirmation>;
+};
+
+// A toast action opening a transaction on the network's explorer, if any.
+function viewTransaction(hash: Hex) {
+    const url = explorerUrl(NETWORK, "tx", hash);
+    if (!url) return undefined;
+
+    return (
+        <Button
+            className="outline outline-white"
+            onClick={() => window.open(url, "_blank", "noopener,noreferrer")}
+        >
+            <div className="flex items-center gap-1 p-1">
+                <p>View</p>
+                <ExternalLink className="w-4 h-4" />
+            </div>
+        </Button>
+    );
+}
+
+export function useTransactions({
+    wallet,
+    batch,
+    sponsored = false,
+}: {
+    wallet: GameWallet | null;
+    batch?: BatchOptions;
+    // Sign moves for the relayer to submit and pay for.
+    sponsored?: boolean;
+}) {
+    // Fetch user balance on new login. Nonces are handed out by the queue.
     const userBalance = useRef(0n);
     const userAddress = useRef("");
 
+    // =============================================================//
+    //                       Balance accounting                     //
+    // =============================================================//
+
+    // Worst-case cost (gas limit × max fee) of transactions awaiting receipts.
+    const reservedBalance = useRef(0n);
+    // Actual cost per move of the latest receipts, oldest first.
+    const moveCosts = useRef<bigint[]>([]);
+    const [movesRemaining, setMovesRemaining] = useState<number | null>(null);
+    // What the last unaffordable transaction was projected to need.
+    const [fundsNeeded, setFundsNeeded] = useState<FundsNeeded | null>(null);
+
+    function availableBalance() {
+        return userBalance.current - reservedBalance.current;
+    }
+
+    // Average cost of a move over the recent receipts, if there are any.
+    function averageMoveCost(): bigint | null {
+        const costs = moveCosts.current;
+        if (costs.length === 0) return null;
+        return costs.reduce((sum, cost) => sum + cost, 0n) / BigInt(costs.length);
+    }
+
+    function updateMovesRemaining() {
+        const cost = averageMoveCost();
+        setMovesRemaining(
+            cost ? Math.max(0, Number(availableBalance() / cost)) : null
+        );
+    }
+
+    // Charges what a transaction actually cost, reverted or not.
+    function recordCost(receipt: TransactionReceipt, includedMoves: number) {
+        const cost = receipt.gasUsed * receipt.effectiveGasPrice;
+        userBalance.current -= cost;
+        moveCosts.current = [
+            ...moveCosts.current,
+            cost / BigInt(includedMoves),
+        ].slice(-MOVE_COST_SAMPLES);
+    }
+
+    // Throws unless the balance left over by pending transactions covers the
+    // moves at their recent average cost. Until a receipt has been seen, the
+    // transaction's worst-case cost stands in for the average.
+    function ensureAffordable(maxCost: bigint, includedMoves: number) {
+        const costPerMove = averageMoveCost() ?? maxCost / BigInt(includedMoves);
+        const required =
+            reservedBalance.current + costPerMove * BigInt(includedMoves);
+        if (userBalance.current < required) {
+            setFundsNeeded({ costPerMove, required });
+            throw new InsufficientFundsError();
+        }
+    }
+
     // Resets nonce and balance
     async function resetNonceAndBalance() {
-        if (!user) {
+        const player = walletRef.current;
+        if (!player) {
             return;
         }
-        const [privyUser] = user.linkedAccounts.filter(
-            (account) =>
-                account.type === "wallet" &&
-                account.walletClientType === "privy"
-        );
-        if (!privyUser || !(privyUser as any).address) {
-            return;
-        }
-        const privyUserAddress = (privyUser as any).address;
+        const playerAddress = player.address;
 
-        const nonce = await publicClient.getTransactionCount({
-            address: privyUserAddress as Hex,
-        });
+        userAddress.current = playerAddress;
+        relayerNonce.current = null;
+
+        // Resume any moves left pending by a reload before reading the balance.
+        await transactionQueue.restore(playerAddress);
         const balance = await publicClient.getBalance({
-            address: privyUserAddress as Hex,
+            address: playerAddress,
         });
 
-        console.log("Setting nonce: ", nonce);
         console.log("Setting balance: ", balance.toString());
 
-        userNonce.current = nonce;
         userBalance.current = balance;
-        userAddress.current = privyUserAddress;
+        updateMovesRemaining();
     }
 
+    // Pick up the signer on every login.
+    const sponsoredRef = useRef(sponsored);
+    sponsoredRef.current = sponsored;
+    const walletRef = useRef<GameWallet | null>(null);
     useEffect(() => {
+        walletRef.current = wallet;
+        setFundsNeeded(null);
         resetNonceAndBalance();
-    }, [user]);
-
-    // Fetch provider on new login.
-    const walletClient = useRef<any>(null);
-    useEffect(() => {
-        async function getWalletClient() {
-            if (!ready || !wallets) return;
-
-            const userWallet = wallets.find(
-                (w) => w.walletClientType == "privy"
-            );
-            if (!userWallet) return;
-
-            const ethereumProvider = await userWallet.getEthereumProvider();
-            const provider = createWalletClient({
-                chain: megaethTestnet,
-                transport: custom(ethereumProvider),
-            });
-
-            console.log("Setting provider: ", provider);
-            walletClient.current = provider;
-        }
-
-        getWalletClient();
-    }, [user, ready, wallets]);
+    }, [wallet]);
 
     // Get current gas price from the network
     async function getCurrentGasPrices() {
@@ -114,15 +227,18 @@ export function useTransactions() {
     }
 
     // Estimate gas for a transaction
-    async function estimateGas(data: Hex): Promise<bigint> {
+    async function estimateGas(
+        data: Hex,
+        fallbackGas: bigint = 100000n
+    ): Promise<bigint> {
         try {
-            const privyUserAddress = userAddress.current;
-            if (!privyUserAddress) {
+            const playerAddress = userAddress.current;
+            if (!playerAddress) {
                 throw new Error("User address not available");
             }
 
             const estimatedGas = await publicClient.estimateGas({
-                account: privyUserAddress as Hex,
+                account: playerAddress as Hex,
                 to: GAME_CONTRACT_ADDRESS,
                 data,
             });
@@ -137,169 +253,320 @@ export function useTransactions() {
         } catch (error) {
             console.warn("Gas estimation failed, using fallback:", error);
             // Return a conservative fallback gas limit
-            return BigInt(100000); // Reduced from 300k/200k
+            return fallbackGas; // Reduced from 300k/200k
+        }
+    }
+
+    // Receipts do not carry the revert reason, so the transaction is replayed
+    // against the block it reverted in to get it back.
+    async function revertError(
+        receipt: TransactionReceipt,
+        data: Hex
+    ): Promise<GameError> {
+        try {
+            await publicClient.call({
+                account: receipt.from,
+                to: GAME_CONTRACT_ADDRESS,
+                data,
+                blockNumber: receipt.blockNumber,
+            });
+        } catch (error) {
+            const decoded = decodeGameError(error);
+            if (decoded.recovery !== "none") return decoded;
+        }
+        return new GameError(
+            `Failed to confirm transaction: ${receipt.transactionHash}`
+        );
+    }
+
+    // Signs a transaction to the game contract, where the wallet allows it.
+    async function signTransaction(request: SignRequest): Promise<Hex> {
+        const signer = walletRef.current?.signTransaction;
+        if (!signer) {
+            throw Error("Wallet cannot sign transactions.");
+        }
+
+        // Sign with explicit EIP-1559 parameters
+        return signer(request);
+    }
+
+    // Queues transactions so they are sent in order and survive reloads.
+    const transactionQueue = useTransactionQueue({
+        signTransaction,
+        sendRawTransaction,
+        simulate: ({ player, data, gas }, queued) =>
+            simulateTransaction({
+                player,
+                data,
+                gas,
+                queued: queued.map((transaction) => transaction.data),
+            }),
+    });
+
+    // Wallets that only send transactions themselves pick their own nonces,
+    // so each is sent after the previous one is out.
+    const walletSendChain = useRef<Promise<unknown>>(Promise.resolve());
+    // Calldata of wallet-sent transactions without a receipt yet, by hash.
+    const walletPending = useRef(new Map<Hex, Hex>());
+
+    function sendThroughWallet(
+        player: GameWallet,
+        request: QueueRequest,
+        resolveGas: () => Promise<GasParams>
+    ): Promise<SentGameTransaction> {
+        const previous = walletSendChain.current;
+
+        const sent = (async () => {
+            await previous.catch(() => {});
+
+            const { data } = request;
+            const { gas, maxFeePerGas, maxPriorityFeePerGas } =
+                await resolveGas();
+            await simulateTransaction({
+                player: player.address,
+                data,
+                gas,
+                queued: [...walletPending.current.values()],
+            });
+
+            const hash = await player.sendTransaction({
+                data,
+                gas,
+                maxFeePerGas,
+                maxPriorityFeePerGas,
+            });
+            walletPending.current.set(hash, data);
+
+            return {
+                hash,
+                data,
+                path: RECEIPT_PATH,
+                confirm: () =>
+                    waitForReceipt(hash, WALLET_CONFIRM_TIMEOUT).finally(() =>
+                        walletPending.current.delete(hash)
+                    ),
+            };
+        })();
+
+        walletSendChain.current = sent;
+        return sent;
+    }
+
+    // Nonce of the player's next signed move. The relayer counts those it
+    // has yet to land, so it is asked once and then counted locally.
+    const relayerNonce = useRef<bigint | null>(null);
+    const relaySendChain = useRef<Promise<unknown>>(Promise.resolve());
+    // Calldata of relayed transactions without a receipt yet, by hash.
+    const relayPending = useRef(new Map<Hex, Hex>());
+
+    // Signs the transaction's moves for the relayer, in order of nonce. The
+    // equivalent call from the player is simulated first, so a move that
+    // would revert is neither signed nor paid for by the relayer.
+    function sendThroughRelayer(
+        player: GameWallet,
+        request: QueueRequest
+    ): Promise<SentGameTransaction> {
+        const previous = relaySendChain.current;
+
+        const sent = (async () => {
+            await previous.catch(() => {});
+
+            await simulateTransaction({
+                player: player.player,
+                data: request.data,
+                queued: [...relayPending.current.values()],
+            });
+
+            try {
+                const nonce =
+                    relayerNonce.current ??
+                    BigInt((await getRelayerPlayer(player.player)).nonce);
+                const deadline =
+                    BigInt(Math.floor(Date.now() / 1000)) + SIGNATURE_TTL;
+                const { payload, data } = await signGameCall(
+                    player.signTypedData,
+                    request.data,
+                    nonce,
+                    deadline
+                );
+
+                const hash = await relay(payload);
+                relayerNonce.current = nonce + 1n;
+                relayPending.current.set(hash, data);
+
+                return {
+                    hash,
+                    data,
+                    path: RECEIPT_PATH,
+                    confirm: () =>
+                        waitForReceipt(hash, WALLET_CONFIRM_TIMEOUT).finally(
+                            () => relayPending.current.delete(hash)
+                        ),
+                };
+            } catch (error) {
+                // Ask the relayer again, whatever it made of the payload.
+                relayerNonce.current = null;
+                throw error;
+            }
+        })();
+
+        relaySendChain.current = sent;
+        return sent;
+    }
+
+    // Queues the transaction when the wallet can sign it raw, which is
+    // fastest; otherwise hands it to the wallet to send. Sponsored moves go
+    // to the relayer instead. Every path takes the transaction's turn before
+    // anything is awaited, and only then resolves its gas.
+    async function send(
+        request: QueueRequest,
+        resolveGas: () => Promise<GasParams>
+    ): Promise<SentGameTransaction> {
+        const player = walletRef.current;
+        if (!player) {
+            throw Error("Wallet not found.");
+        }
+        if (sponsoredRef.current) {
+            return sendThroughRelayer(player, request);
         }
+        if (!player.signTransaction) {
+            return sendThroughWallet(player, request, resolveGas);
+        }
+
+        const { transaction, path } = await transactionQueue.enqueue(
+            request,
+            resolveGas
+        );
+        return {
+            hash: transaction.hash,
+            data: request.data,
+            path,
+            confirm: () => transactionQueue.confirm(transaction),
+        };
     }
 
     // Sends a transaction and wait for receipt.
     async function sendRawTransactionAndConfirm({
         successText,
         data,
-        nonce,
-        gas,
-        maxFeePerGas,
-        maxPriorityFeePerGas,
+        gameId,
+        moveNumber,
+        move,
+        board,
+        includedMoves = 1,
+        fallbackGas,
     }: {
         successText?: string;
         data: Hex;
-        nonce: number;
-        gas?: BigInt;
-        maxFeePerGas?: BigInt;
-        maxPriorityFeePerGas?: BigInt;
-    }) {
-        let e: Error | null = null;
+        gameId: Hex;
+        moveNumber: number;
+        move: number;
+        board: bigint;
+        includedMoves?: number;
+        fallbackGas?: bigint; // if the gas cannot be estimated
+    }): Promise<TransactionReceipt> {
+        let e: GameError | null = null;
+        let reservedCost = 0n;
 
         try {
-            // Sign and send transaction.
-            const provider = walletClient.current;
-            if (!provider) {
+            const playerAddress = userAddress.current;
+            if (!playerAddress) {
                 throw Error("Wallet not found.");
             }
-            const privyUserAddress = userAddress.current;
-            if (!privyUserAddress) {
-                throw Error("Privy user not found.");
-            }
 
-            // Get current gas prices if not provided
-            const gasParams = maxFeePerGas && maxPriorityFeePerGas 
-                ? { maxFeePerGas, maxPriorityFeePerGas }
-                : await getCurrentGasPrices();
-
-            // Estimate gas if not provided
-            const gasLimit = gas || await estimateGas(data);
+            // Gas and fees are resolved once the transaction's turn has come,
+            // so waiting on them cannot reorder moves.
+            const sponsored = sponsoredRef.current;
+            const resolveGas = async (): Promise<GasParams> => {
+                const gasParams = await getCurrentGasPrices();
+                const gas = await estimateGas(data, fallbackGas);
+
+                // Hold the worst-case cost until the receipt tells the real
+                // one. Sponsored moves cost the player nothing.
+                const maxCost = gas * gasParams.maxFeePerGas;
+                if (!sponsored) {
+                    ensureAffordable(maxCost, includedMoves);
+                    reservedCost = maxCost;
+                    reservedBalance.current += reservedCost;
+                }
+                return { gas, ...gasParams };
+            };
 
             const startTime = Date.now();
-            // Sign with explicit EIP-1559 parameters
-            const signedTransaction = await provider.signTransaction({
-                to: GAME_CONTRACT_ADDRESS,
-                account: privyUserAddress,
-                data,
-                nonce,
-                gas: gasLimit,
-                maxFeePerGas: gasParams.maxFeePerGas,
-                maxPriorityFeePerGas: gasParams.maxPriorityFeePerGas,
-            });
+            let sent;
+            try {
+                sent = await send(
+                    {
+                        player: playerAddress as Hex,
+                        gameId,
+                        moveNumber,
+                        move,
+                        board,
+                        data,
+                    },
+                    resolveGas
+                );
+            } catch (error) {
+                console.log(`Failed sent in ${Date.now() - startTime} ms`);
+                throw error;
+            }
 
-            
-            const rpcUrl = window.location.hostname === 'localhost' 
-                ? '/megaeth-rpc'  
-                : 'https://carrot.megaeth.com/rpc'; 
-
-            const response = await post({
-                url: rpcUrl,
-                params: {
-                    id: 0,
-                    jsonrpc: "2.0",
-                    method: "eth_sendRawTransaction",
-                    params: [signedTransaction],
-                },
-                includeCredentials: false, 
-                
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                
-                retries: 3,
-                retryDelay: 2000
-            });
-            
             const time = Date.now() - startTime;
 
-            if (response.error) {
-                console.log(`Failed sent in ${time} ms`);
-                throw Error(response.error.message);
-            }
-
-            const transactionHash: Hex = response.result;
+            const { hash: transactionHash, path: sendPath } = sent;
 
-            // Fire toast info with benchmark and transaction hash.
-            console.log(`Transaction sent in ${time} ms: ${response.result}`);
+            // Fire toast info with benchmark, path and transaction hash.
+            console.log(
+                `Transaction sent in ${time} ms (${sendPath}): ${transactionHash}`
+            );
             toast.info(`Sent transaction.`, {
-                description: `${successText} Time: ${time} ms`,
-                action: (
-                    <Button
-                        className="outline outline-white"
-                        onClick={() =>
-                            window.open(
-                                `https://megaexplorer.xyz/tx/${transactionHash}`,
-                                "_blank",
-                                "noopener,noreferrer"
-                            )
-                        }
-                    >
-                        <div className="flex items-center gap-1 p-1">
-                            <p>View</p>
-                            <ExternalLink className="w-4 h-4" />
-                        </div>
-                    </Button>
-                ),
+                description: `${successText} Time: ${time} ms (${sendPath})`,
+                action: viewTransaction(transactionHash),
             });
 
-            // Confirm transaction
-            const receipt = await waitForTransactionReceipt(publicClient, {
-                hash: transactionHash,
-            });
+            // Confirm transaction, recovering it if dropped or stuck
+            const { receipt, path } = await sent.confirm();
+            if (!sponsored) {
+                recordCost(receipt, includedMoves);
+            }
 
             if (receipt.status == "reverted") {
                 console.log(
                     `Failed confirmation in ${Date.now() - startTime} ms`
                 );
-                throw Error(
-                    `Failed to confirm transaction: ${transactionHash}`
-                );
+                throw await revertError(receipt, sent.data);
             }
 
             console.log(
-                `Transaction confirmed in ${Date.now() - startTime} ms: ${
-                    response.result
+                `Transaction confirmed in ${Date.now() - startTime} ms (${path}): ${
+                    receipt.transactionHash
                 }`
             );
             toast.success(`Confirmed transaction.`, {
                 description: `${successText} Time: ${
                     Date.now() - startTime
-                } ms`,
-                action: (
-                    <Button
-                        className="outline outline-white"
-                        onClick={() =>
-                            window.open(
-                                `https://megaexplorer.xyz/tx/${transactionHash}`,
-                                "_blank",
-                                "noopener,noreferrer"
-                            )
-                        }
-                    >
-                        <div className="flex items-center gap-1 p-1">
-                            <p>View</p>
-                            <ExternalLink className="w-4 h-4" />
-                        </div>
-                    </Button>
-                ),
+                } ms (${path})`,
+                action: viewTransaction(transactionHash),
             });
+
+            return receipt;
         } catch (error) {
-            e = error as Error;
+            e = decodeGameError(error);
 
             toast.error(`Failed to send transaction.`, {
                 description: `Error: ${e.message}`,
             });
+        } finally {
+            reservedBalance.current -= reservedCost;
+            updateMovesRemaining();
         }
 
-        if (e) {
-            throw e;
-        }
+        // Only reached when the transaction failed.
+        throw e;
     }
 
-    // Returns a the latest stored board of a game as an array.
+    // Returns a the latest stored board of a game as an array, along with
+    // the next move number and the game's on-chain score.
     async function getLatestGameBoard(
         gameId: Hex
     ): Promise<
@@ -322,42 +589,80 @@ export function useTransactions() {
                 number,
                 number
             ],
+            bigint,
             bigint
         ]
     > {
-        const [latestBoard, nextMoveNumber] = await publicClient.readContract({
-            address: GAME_CONTRACT_ADDRESS,
-            abi: [
-                {
-                    type: "function",
-                    name: "getBoard",
-                    inputs: [
-                        {
-                            name: "gameId",
-                            type: "bytes32",
-                            internalType: "bytes32",
-                        },
-                    ],
-                    outputs: [
-                        {
-                            name: "boardArr",
-                            type: "uint8[16]",
-                            internalType: "uint8[16]",
-                        },
-                        {
-                            name: "nextMoveNumber",
-                            type: "uint256",
-                            internalType: "uint256",
-                        },
-                    ],
-                    stateMutability: "view",
-                },
-            ],
-            functionName: "getBoard",
-            args: [gameId],
+        const [[latestBoard, nextMoveNumber], score] = await Promise.all([
+            megaEth2048.read.getBoard([gameId]),
+            megaEth2048.read.getScore([gameId]),
+        ]);
+
+        return [latestBoard, nextMoveNumber, score];
+    }
+
+    // =============================================================//
+    //                        Confirmed boards                      //
+    // =============================================================//
+
+    // Boards the contract stored, by move number, from a receipt's events.
+    // Each MoveConfirmed follows the NewGame or NewMove of its move.
+    function parseConfirmedMoves(receipt: TransactionReceipt): ConfirmedMove[] {
+        const confirmed: ConfirmedMove[] = [];
+        let latest: Omit<ConfirmedMove, "moveNumber"> | null = null;
+
+        const logs = parseEventLogs({
+            abi: MEGAETH2048_ABI,
+            eventName: ["NewGame", "NewMove", "MoveConfirmed"],
+            logs: receipt.logs.filter(
+                (log) =>
+                    log.address.toLowerCase() ===
+                    GAME_CONTRACT_ADDRESS.toLowerCase()
+            ),
         });
+        for (const log of logs) {
+            if (log.eventName === "NewGame") {
+                latest = { board: log.args.board };
+            } else if (log.eventName === "NewMove") {
+                latest = {
+                    board: log.args.result,
+                    score: Number(log.args.score),
+                };
+            } else if (latest) {
+                confirmed.push({
+                    moveNumber: Number(log.args.move),
+                    ...latest,
+                });
+                latest = null;
+            }
+        }
+
+        return confirmed;
+    }
 
-        return [latestBoard, nextMoveNumber];
+    // The confirmed board of a move, read back from the contract as of the
+    // receipt's block if its events are missing.
+    async function confirmedMove(
+        receipt: TransactionReceipt,
+        gameId: Hex,
+        moveNumber: number
+    ): Promise<ConfirmedMove> {
+        const confirmed = parseConfirmedMoves(receipt).find(
+            (move) => move.moveNumber === moveNumber
+        );
+        if (confirmed) return confirmed;
+
+        const blockNumber = receipt.blockNumber;
+        const [board, nextMove, score] = await Promise.all([
+            megaEth2048.read.latestBoard([gameId], { blockNumber }),
+            megaEth2048.read.nextMove([gameId], { blockNumber }),
+            megaEth2048.read.getScore([gameId], { blockNumber }),
+        ]);
+        return {
+            moveNumber: Number(nextMove) - 1,
+            board,
+            score: Number(score),
+        };
     }
 
     // Initializes a game. Calls `prepareGame` and `startGame`.
@@ -365,114 +670,172 @@ export function useTransactions() {
         gameId: Hex,
         boards: readonly [bigint, bigint, bigint, bigint],
         moves: readonly [number, number, number]
-    ): Promise<void> {
-        const balance = userBalance.current;
-        if (parseFloat(formatEther(balance)) < 0.01) {
-            throw Error("Signer has insufficient balance.");
-        }
-
+    ): Promise<ConfirmedMove> {
         // Sign and send transaction: start game
         console.log("Starting game!");
 
-        const data = encodeFunctionData({
-            abi: [
-                {
-                    type: "function",
-                    name: "startGame",
-                    inputs: [
-                        {
-                            name: "gameId",
-                            type: "bytes32",
-                            internalType: "bytes32",
-                        },
-                        {
-                            name: "boards",
-                            type: "uint128[4]",
-                            internalType: "uint128[4]",
-                        },
-                        {
-                            name: "moves",
-                            type: "uint8[3]",
-                            internalType: "uint8[3]",
-                        },
-                    ],
-                    outputs: [],
-                    stateMutability: "nonpayable",
-                },
-            ],
-            functionName: "startGame",
-            args: [gameId, boards, moves],
-        });
-
-        const nonce = userNonce.current;
-        userNonce.current = nonce + 1;
-        userBalance.current = balance - parseEther("0.0075");
+        const data = megaEth2048.encode.startGame([gameId, boards, moves]);
 
-        await sendRawTransactionAndConfirm({
-            nonce: nonce,
+        const receipt = await sendRawTransactionAndConfirm({
             successText: "Started game!",
             data,
+            gameId,
+            moveNumber: 3,
+            move: moves[2],
+            board: boards[3],
+            includedMoves: 3,
             // Let the function estimate gas and get current gas prices
         });
+
+        return confirmedMove(receipt, gameId, 3);
     }
 
-    async function playNewMoveTransaction(
+    // Plays a move on its own, or adds it to the current batch when batching.
+    function playNewMoveTransaction(
         gameId: Hex,
         board: bigint,
         move: number,
         moveCount: number
-    ): Promise<void> {
-        // Sign and send transaction: play move
-        console.log(`Playing move ${moveCount}!`);
-
-        const balance = userBalance.current;
-        if (parseFloat(formatEther(balance)) < 0.01) {
-            throw Error("Signer has insufficient balance.");
+    ): Promise<ConfirmedMove> {
+        if (!batch) {
+            return sendPlayTransaction(gameId, board, move, moveCount);
         }
 
-        const data = encodeFunctionData({
-            abi: [
-                {
-                    type: "function",
-                    name: "play",
-                    inputs: [
-                        {
-                            name: "gameId",
-                            type: "bytes32",
-                            internalType: "bytes32",
-                        },
-                        {
-                            name: "move",
-                            type: "uint8",
-                            internalType: "uint8",
-                        },
-                        {
-                            name: "resultBoard",
-                            type: "uint128",
-                            internalType: "uint128",
-                        },
-                    ],
-                    outputs: [],
-                    stateMutability: "nonpayable",
-                },
-            ],
-            functionName: "play",
-            args: [gameId, move, board],
+        return new Promise((resolve, reject) => {
+            // A batch only ever holds moves of one game.
+            const pending = pendingMoves.current;
+            if (pending.length > 0 && pending[0].gameId !== gameId) {
+                flushPendingMoves();
+            }
+
+            pendingMoves.current.push({
+                gameId,
+                board,
+                move,
+                moveCount,
+                resolve,
+                reject,
+            });
+
+            if (pendingMoves.current.length >= batch.size) {
+                flushPendingMoves();
+            } else if (!batchTimer.current) {
+                batchTimer.current = setTimeout(
+                    flushPendingMoves,
+                    batch.window
+                );
+            }
         });
+    }
+
+    // =============================================================//
+    //                        Batched moves                         //
+    // =============================================================//
+
+    const pendingMoves = useRef<PendingMove[]>([]);
+    const batchTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    // Sends every gathered move, as a single play() if there is only one.
+    function flushPendingMoves() {
+        if (batchTimer.current) {
+            clearTimeout(batchTimer.current);
+            batchTimer.current = null;
+        }
+
+        const moves = pendingMoves.current;
+        pendingMoves.current = [];
+
+        if (moves.length === 1) {
+            const [{ gameId, board, move, moveCount, resolve, reject }] =
+                moves;
+            sendPlayTransaction(gameId, board, move, moveCount).then(
+                resolve,
+                reject
+            );
+        } else if (moves.length > 1) {
+            sendPlayBatchTransaction(moves);
+        }
+    }
+
+    async function sendPlayBatchTransaction(moves: PendingMove[]) {
+        const { gameId } = moves[0];
+        const last = moves[moves.length - 1];
+        console.log(`Playing moves ${moves[0].moveCount}-${last.moveCount}!`);
+
+        try {
+            const data = megaEth2048.encode.playBatch([
+                gameId,
+                moves.map(({ move }) => move),
+                moves.map(({ board }) => board),
+            ]);
+
+            const receipt = await sendRawTransactionAndConfirm({
+                successText: `Played moves ${moves[0].moveCount}-${last.moveCount}`,
+                data,
+                gameId,
+                moveNumber: last.moveCount,
+                move: last.move,
+                board: last.board,
+                includedMoves: moves.length,
+                fallbackGas:
+                    BATCH_BASE_GAS + BATCH_MOVE_GAS * BigInt(moves.length),
+            });
+
+            // Settle each move by the board its own events report.
+            const confirmedMoves = new Map(
+                parseConfirmedMoves(receipt).map((confirmed) => [
+                    confirmed.moveNumber,
+                    confirmed,
+                ])
+            );
+
+            for (const pending of moves) {
+                const confirmed = confirmedMoves.get(pending.moveCount);
+                if (confirmed) {
+                    console.log(`Confirmed move ${pending.moveCount}`);
+                    pending.resolve(confirmed);
+                } else {
+                    pending.reject(
+                        Error(`Move ${pending.moveCount} was not confirmed.`)
+                    );
+                }
+            }
+        } catch (error) {
+            moves.forEach(({ reject }) => reject(error as Error));
+        }
+    }
 
-        const nonce = userNonce.current;
-        userNonce.current = nonce + 1;
-        userBalance.current = balance - parseEther("0.005");
+    // =============================================================//
+    //                          Single moves                        //
+    // =============================================================//
 
-        await sendRawTransactionAndConfirm({
-            nonce,
+    async function sendPlayTransaction(
+        gameId: Hex,
+        board: bigint,
+        move: number,
+        moveCount: number
+    ): Promise<ConfirmedMove> {
+        // Sign and send transaction: play move
+        console.log(`Playing move ${moveCount}!`);
+
+        const data = megaEth2048.encode.play([gameId, move, board]);
+
+        const receipt = await sendRawTransactionAndConfirm({
             successText: `Played move ${moveCount}`,
             data,
+            gameId,
+            moveNumber: moveCount,
+            move,
+            board,
             // Let the function estimate gas and get current gas prices
         });
+
+        return confirmedMove(receipt, gameId, moveCount);
     }
 
     return {
+        movesRemaining,
+        fundsNeeded,
         resetNonceAndBalance,
         initializeGameTransaction,
         playNewMoveTransaction,
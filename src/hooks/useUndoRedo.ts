@@ -0,0 +1,52 @@
+import { useState } from "react";
+
+type History<T> = {
+    past: T[];
+    future: T[];
+};
+
+// Unlimited undo / redo stacks of snapshots.
+export function useUndoRedo<T>() {
+    const [history, setHistory] = useState<History<T>>({
+        past: [],
+        future: [],
+    });
+
+    // Records the snapshot being left behind by a new action.
+    function record(current: T) {
+        setHistory((h) => ({ past: [...h.past, current], future: [] }));
+    }
+
+    // Returns the snapshot to restore, if any.
+    function undo(current: T): T | undefined {
+        const previous = history.past[history.past.length - 1];
+        if (previous === undefined) return;
+
+        setHistory({
+            past: history.past.slice(0, -1),
+            future: [current, ...history.future],
+        });
+        return previous;
+    }
+
+    function redo(current: T): T | undefined {
+        const [next, ...future] = history.future;
+        if (next === undefined) return;
+
+        setHistory({ past: [...history.past, current], future });
+        return next;
+    }
+
+    function clear() {
+        setHistory({ past: [], future: [] });
+    }
+
+    return {
+        record,
+        undo,
+        redo,
+        clear,
+        canUndo: history.past.length > 0,
+        canRedo: history.future.length > 0,
+    };
+}
@@ -0,0 +1,322 @@
+import { SignRequest } from "@/hooks/useTransactionQueue";
+import { NETWORK, publicClient, transport } from "@/utils/client";
+import { GAME_CONTRACT_ADDRESS } from "@/utils/constants";
+import { megaEth2048 } from "@/utils/megaeth2048";
+import {
+    clearSession,
+    isSessionExpired,
+    loadSession,
+    saveSession,
+    StoredSession,
+} from "@/utils/storage";
+import { GameTypedData } from "@/utils/typedData";
+import {
+    ConnectedWallet,
+    useLogin,
+    useLogout,
+    usePrivy,
+    useWallets,
+} from "@privy-io/react-auth";
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { createWalletClient, custom, Hex, parseEther } from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+
+export type WalletKind = "embedded" | "injected" | "local" | "session";
+
+// Fees and gas are filled in by the wallet when left out.
+export type SendRequest = Partial<Omit<SignRequest, "nonce" | "data">> & {
+    data: Hex;
+    value?: bigint;
+};
+
+// The player's signer, whichever kind of wallet backs it.
+export type GameWallet = {
+    kind: WalletKind;
+    address: Hex; // the signer
+    player: Hex; // whose games it plays, the signer unless a session key
+    // Raw signing, so moves can be queued, persisted and broadcast directly.
+    // Injected wallets only sign what they send themselves.
+    signTransaction?: (request: SignRequest) => Promise<Hex>;
+    sendTransaction: (request: SendRequest) => Promise<Hex>;
+    // Signs moves for a relayer to submit, see `startGameBySig`.
+    signTypedData: (typedData: GameTypedData) => Promise<Hex>;
+};
+
+// A funded key for local development, never offered in production.
+const DEV_PRIVATE_KEY =
+    import.meta.env.VITE_APP_ENVIRONMENT !== "prod"
+        ? (import.meta.env.VITE_DEV_PRIVATE_KEY as Hex | undefined)
+        : undefined;
+
+const CHAIN_ID = `eip155:${NETWORK.chain.id}`;
+
+// Session keys last a day, play any number of moves and are sent enough
+// to pay for a few hundred of them.
+const SESSION_DURATION = 24 * 60 * 60;
+const SESSION_MOVE_CAP = 0;
+const SESSION_FUNDING = parseEther("0.05");
+
+// Wraps a wallet connected through Privy, switching it to the network first.
+async function privyWallet(connected: ConnectedWallet): Promise<GameWallet> {
+    if (connected.chainId !== CHAIN_ID) {
+        await connected.switchChain(NETWORK.chain.id);
+    }
+
+    const client = createWalletClient({
+        account: connected.address as Hex,
+        chain: NETWORK.chain,
+        transport: custom(await connected.getEthereumProvider()),
+    });
+    const embedded = connected.walletClientType === "privy";
+
+    return {
+        kind: embedded ? "embedded" : "injected",
+        address: client.account.address,
+        player: client.account.address,
+        signTransaction: embedded
+            ? (request) =>
+                  client.signTransaction({
+                      to: GAME_CONTRACT_ADDRESS,
+                      ...request,
+                  })
+            : undefined,
+        sendTransaction: (request) =>
+            client.sendTransaction({ to: GAME_CONTRACT_ADDRESS, ...request }),
+        signTypedData: (typedData) => client.signTypedData(typedData),
+    };
+}
+
+// A private-key signer: the dev signer, or a session key playing for
+// `player`.
+function localWallet(privateKey: Hex, player?: Hex): GameWallet {
+    const client = createWalletClient({
+        account: privateKeyToAccount(privateKey),
+        chain: NETWORK.chain,
+        transport,
+    });
+
+    return {
+        kind: player ? "session" : "local",
+        address: client.account.address,
+        player: player ?? client.account.address,
+        signTransaction: (request) =>
+            client.signTransaction({ to: GAME_CONTRACT_ADDRESS, ...request }),
+        sendTransaction: (request) =>
+            client.sendTransaction({ to: GAME_CONTRACT_ADDRESS, ...request }),
+        signTypedData: (typedData) => client.signTypedData(typedData),
+    };
+}
+
+function sessionClient(session: StoredSession) {
+    return createWalletClient({
+        account: privateKeyToAccount(session.privateKey),
+        chain: NETWORK.chain,
+        transport,
+    });
+}
+
+// Revokes a session key from the key itself, so no popup is needed.
+async function revokeSession(session: StoredSession) {
+    const client = sessionClient(session);
+    const hash = await client.sendTransaction({
+        to: GAME_CONTRACT_ADDRESS,
+        data: megaEth2048.encode.revokeSession([client.account.address]),
+    });
+    await publicClient.waitForTransactionReceipt({ hash });
+}
+
+// Sends what is left of a session key's funding back to the player.
+async function sweepSession(session: StoredSession, player: Hex) {
+    const client = sessionClient(session);
+    const [balance, { maxFeePerGas }] = await Promise.all([
+        publicClient.getBalance({ address: client.account.address }),
+        publicClient.estimateFeesPerGas(),
+    ]);
+    const gas = 21000n;
+    if (balance > gas * maxFeePerGas) {
+        const hash = await client.sendTransaction({
+            to: player,
+            value: balance - gas * maxFeePerGas,
+            gas,
+            maxFeePerGas,
+        });
+        await publicClient.waitForTransactionReceipt({ hash });
+    }
+}
+
+// Forgets a session key once its funds are back with the player. Until
+// then it stays stored, as expired, so the next load tries again.
+async function retireSession(session: StoredSession, player: Hex) {
+    try {
+        await sweepSession(session, player);
+        clearSession(player);
+    } catch (error) {
+        console.warn("Failed to recover the session key's funds:", error);
+    }
+}
+
+/**
+ * Resolves the wallet the player logged in with: Privy's embedded wallet,
+ * an injected EIP-1193 wallet picked in Privy's login modal, or, during
+ * development, a local private-key signer.
+ *
+ * Players with an injected wallet can authorize a session key, stored in
+ * the browser, which then signs their moves without a popup for each.
+ */
+export function useWallet() {
+    const { user, authenticated } = usePrivy();
+    const { ready, wallets } = useWallets();
+    const { login } = useLogin();
+    const { logout: privyLogout } = useLogout();
+
+    const [devSigner, setDevSigner] = useState<boolean>(false);
+    const [baseWallet, setBaseWallet] = useState<GameWallet | null>(null);
+    const [session, setSession] = useState<StoredSession | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        async function connect(): Promise<GameWallet | null> {
+            if (devSigner && DEV_PRIVATE_KEY) {
+                return localWallet(DEV_PRIVATE_KEY);
+            }
+            if (!user || !authenticated || !ready) return null;
+
+            // The embedded wallet if the player has one, else the one they
+            // logged in with.
+            const connected =
+                wallets.find((w) => w.walletClientType === "privy") ??
+                wallets.find(
+                    (w) =>
+                        w.address.toLowerCase() ===
+                        user.wallet?.address.toLowerCase()
+                );
+            return connected ? privyWallet(connected) : null;
+        }
+
+        connect()
+            .then((next) => {
+                if (cancelled) return;
+                // Keep the same object while the signer is unchanged.
+                setBaseWallet((current) =>
+                    current &&
+                    next &&
+                    current.kind === next.kind &&
+                    current.address === next.address
+                        ? current
+                        : next
+                );
+            })
+            .catch((error) => {
+                console.error("Failed to connect wallet:", error);
+                toast.error("Failed to connect wallet.", {
+                    description: `Error: ${(error as Error).message}`,
+                });
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [devSigner, user, authenticated, ready, wallets]);
+
+    // Pick up the session key stored for an injected wallet, retiring it
+    // instead if it has expired.
+    useEffect(() => {
+        const stored =
+            baseWallet?.kind === "injected"
+                ? loadSession(baseWallet.address)
+                : null;
+        if (stored && isSessionExpired(stored)) {
+            setSession(null);
+            retireSession(stored, baseWallet!.address);
+        } else {
+            setSession(stored);
+        }
+    }, [baseWallet]);
+
+    const wallet = useMemo(
+        () =>
+            baseWallet && session
+                ? localWallet(session.privateKey, baseWallet.address)
+                : baseWallet,
+        [baseWallet, session]
+    );
+
+    // Authorizes and funds a new session key in a single wallet popup.
+    async function enableSession() {
+        if (baseWallet?.kind !== "injected") return;
+
+        const next: StoredSession = {
+            privateKey: generatePrivateKey(),
+            expiry: Math.floor(Date.now() / 1000) + SESSION_DURATION,
+            moveCap: SESSION_MOVE_CAP,
+        };
+        const sessionKey = privateKeyToAccount(next.privateKey).address;
+
+        // Stored first, so the funding is never lost with the page.
+        saveSession(baseWallet.address, next);
+        try {
+            const hash = await baseWallet.sendTransaction({
+                data: megaEth2048.encode.authorizeSession([
+                    sessionKey,
+                    BigInt(next.expiry),
+                    next.moveCap,
+                ]),
+                value: SESSION_FUNDING,
+            });
+            const receipt = await publicClient.waitForTransactionReceipt({
+                hash,
+            });
+            if (receipt.status === "reverted") {
+                throw new Error("Authorizing the session key reverted.");
+            }
+        } catch (error) {
+            clearSession(baseWallet.address);
+            throw error;
+        }
+        setSession(next);
+    }
+
+    // Drops the session key, playing from the wallet itself again.
+    async function disableSession() {
+        if (!baseWallet || !session) return;
+
+        // Stored as expired, so it is not picked up again if its funds
+        // cannot be recovered right away.
+        saveSession(baseWallet.address, {
+            ...session,
+            expiry: Math.min(session.expiry, Math.floor(Date.now() / 1000)),
+        });
+        setSession(null);
+        try {
+            await revokeSession(session);
+        } catch (error) {
+            // An expired key may have nothing left to pay for the revoke.
+            console.warn("Failed to revoke session key:", error);
+        }
+        await retireSession(session, baseWallet.address);
+    }
+
+    async function logout() {
+        setDevSigner(false);
+        setSession(null);
+        if (authenticated) {
+            await privyLogout();
+        }
+    }
+
+    return {
+        wallet,
+        login,
+        loginWithDevSigner: DEV_PRIVATE_KEY
+            ? () => setDevSigner(true)
+            : undefined,
+        enableSession:
+            baseWallet?.kind === "injected" && !session
+                ? enableSession
+                : undefined,
+        disableSession: session ? disableSession : undefined,
+        logout,
+    };
+}
@@ -7,7 +7,7 @@ import App from "./App.tsx";
 import { PrivyProvider } from "@privy-io/react-auth";
 
 // Utils
-import { megaethTestnet } from "viem/chains";
+import { NETWORK } from "@/utils/client";
 
 createRoot(document.getElementById("root")!).render(
     <StrictMode>
@@ -18,9 +18,9 @@ createRoot(document.getElementById("root")!).render(
                     theme: "light",
                     walletChainType: "ethereum-only",
                 },
-                defaultChain: megaethTestnet,
-                supportedChains: [megaethTestnet],
-                loginMethods: ["google", "passkey"],
+                defaultChain: NETWORK.chain,
+                supportedChains: [NETWORK.chain],
+                loginMethods: ["google", "passkey", "wallet"],
                 embeddedWallets: {
                     ethereum: { createOnLogin: "users-without-wallets" },
                 },
@@ -0,0 +1,915 @@
+// Generated by contract-deployment/scripts/generate-abi.ts. Do not edit.
+
+export const MEGAETH2048_ABI = [
+    {
+        "inputs": [],
+        "stateMutability": "nonpayable",
+        "type": "constructor"
+    },
+    {
+        "inputs": [],
+        "name": "GameBoardInvalid",
+        "type": "error"
+    },
+    {
+        "inputs": [],
+        "name": "GameIdUsed",
+        "type": "error"
+    },
+    {
+        "inputs": [],
+        "name": "GamePlayed",
+        "type": "error"
+    },
+    {
+        "inputs": [],
+        "name": "GamePlayerInvalid",
+        "type": "error"
+    },
+    {
+        "inputs": [],
+        "name": "SessionInvalid",
+        "type": "error"
+    },
+    {
+        "inputs": [],
+        "name": "SignatureInvalid",
+        "type": "error"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "player",
+                "type": "address"
+            },
+            {
+                "indexed": true,
+                "internalType": "bytes32",
+                "name": "id",
+                "type": "bytes32"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "move",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "blockNumber",
+                "type": "uint256"
+            }
+        ],
+        "name": "MoveConfirmed",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "player",
+                "type": "address"
+            },
+            {
+                "indexed": true,
+                "internalType": "bytes32",
+                "name": "id",
+                "type": "bytes32"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "board",
+                "type": "uint256"
+            }
+        ],
+        "name": "NewGame",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "player",
+                "type": "address"
+            },
+            {
+                "indexed": true,
+                "internalType": "bytes32",
+                "name": "id",
+                "type": "bytes32"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "move",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "result",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "score",
+                "type": "uint256"
+            }
+        ],
+        "name": "NewMove",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "player",
+                "type": "address"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "sessionKey",
+                "type": "address"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint64",
+                "name": "expiry",
+                "type": "uint64"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint32",
+                "name": "moveCap",
+                "type": "uint32"
+            }
+        ],
+        "name": "SessionAuthorized",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "player",
+                "type": "address"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "sessionKey",
+                "type": "address"
+            }
+        ],
+        "name": "SessionRevoked",
+        "type": "event"
+    },
+    {
+        "inputs": [],
+        "name": "DOMAIN_SEPARATOR",
+        "outputs": [
+            {
+                "internalType": "bytes32",
+                "name": "",
+                "type": "bytes32"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "PLAY_TYPEHASH",
+        "outputs": [
+            {
+                "internalType": "bytes32",
+                "name": "",
+                "type": "bytes32"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "START_GAME_TYPEHASH",
+        "outputs": [
+            {
+                "internalType": "bytes32",
+                "name": "",
+                "type": "bytes32"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "UNLIMITED_MOVES",
+        "outputs": [
+            {
+                "internalType": "uint32",
+                "name": "",
+                "type": "uint32"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "sessionKey",
+                "type": "address"
+            },
+            {
+                "internalType": "uint64",
+                "name": "expiry",
+                "type": "uint64"
+            },
+            {
+                "internalType": "uint32",
+                "name": "moveCap",
+                "type": "uint32"
+            }
+        ],
+        "name": "authorizeSession",
+        "outputs": [],
+        "stateMutability": "payable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "bytes32",
+                "name": "gameId",
+                "type": "bytes32"
+            },
+            {
+                "internalType": "uint256",
+                "name": "moveNumber",
+                "type": "uint256"
+            }
+        ],
+        "name": "calculateSeed",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "pure",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "bytes32",
+                "name": "gameHash",
+                "type": "bytes32"
+            }
+        ],
+        "name": "gameHashOf",
+        "outputs": [
+            {
+                "internalType": "bytes32",
+                "name": "gameId",
+                "type": "bytes32"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "bytes32",
+                "name": "gameId",
+                "type": "bytes32"
+            }
+        ],
+        "name": "getBoard",
+        "outputs": [
+            {
+                "internalType": "uint8[16]",
+                "name": "boardArr",
+                "type": "uint8[16]"
+            },
+            {
+                "internalType": "uint256",
+                "name": "nextMoveNumber",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "bytes32",
+                "name": "gameId",
+                "type": "bytes32"
+            }
+        ],
+        "name": "getScore",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "bytes32",
+                "name": "gameId",
+                "type": "bytes32"
+            },
+            {
+                "internalType": "uint256",
+                "name": "moveNumber",
+                "type": "uint256"
+            }
+        ],
+        "name": "isMoveConfirmed",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "bytes32",
+                "name": "gameId",
+                "type": "bytes32"
+            }
+        ],
+        "name": "latestBoard",
+        "outputs": [
+            {
+                "internalType": "uint128",
+                "name": "",
+                "type": "uint128"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "bytes32",
+                "name": "gameId",
+                "type": "bytes32"
+            },
+            {
+                "internalType": "uint256",
+                "name": "moveNumber",
+                "type": "uint256"
+            }
+        ],
+        "name": "moveConfirmed",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "confirmed",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "bytes32",
+                "name": "gameId",
+                "type": "bytes32"
+            }
+        ],
+        "name": "nextMove",
+        "outputs": [
+            {
+                "internalType": "uint120",
+                "name": "",
+                "type": "uint120"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "player",
+                "type": "address"
+            }
+        ],
+        "name": "nonces",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "nonce",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "bytes32",
+                "name": "gameId",
+                "type": "bytes32"
+            },
+            {
+                "internalType": "uint8",
+                "name": "move",
+                "type": "uint8"
+            },
+            {
+                "internalType": "uint128",
+                "name": "resultBoard",
+                "type": "uint128"
+            }
+        ],
+        "name": "play",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "bytes32",
+                "name": "gameId",
+                "type": "bytes32"
+            },
+            {
+                "internalType": "uint8[]",
+                "name": "moves",
+                "type": "uint8[]"
+            },
+            {
+                "internalType": "uint128[]",
+                "name": "resultBoards",
+                "type": "uint128[]"
+            }
+        ],
+        "name": "playBatch",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "bytes32",
+                "name": "gameId",
+                "type": "bytes32"
+            },
+            {
+                "internalType": "uint8[]",
+                "name": "moves",
+                "type": "uint8[]"
+            },
+            {
+                "internalType": "uint128[]",
+                "name": "resultBoards",
+                "type": "uint128[]"
+            },
+            {
+                "internalType": "uint256",
+                "name": "deadline",
+                "type": "uint256"
+            },
+            {
+                "internalType": "bytes",
+                "name": "signature",
+                "type": "bytes"
+            }
+        ],
+        "name": "playBySig",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "sessionKey",
+                "type": "address"
+            }
+        ],
+        "name": "revokeSession",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "sessionKey",
+                "type": "address"
+            }
+        ],
+        "name": "sessions",
+        "outputs": [
+            {
+                "internalType": "address",
+                "name": "player",
+                "type": "address"
+            },
+            {
+                "internalType": "uint64",
+                "name": "expiry",
+                "type": "uint64"
+            },
+            {
+                "internalType": "uint32",
+                "name": "movesLeft",
+                "type": "uint32"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "bytes32",
+                "name": "gameId",
+                "type": "bytes32"
+            },
+            {
+                "internalType": "uint128[4]",
+                "name": "boards",
+                "type": "uint128[4]"
+            },
+            {
+                "internalType": "uint8[3]",
+                "name": "moves",
+                "type": "uint8[3]"
+            }
+        ],
+        "name": "startGame",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "bytes32",
+                "name": "gameId",
+                "type": "bytes32"
+            },
+            {
+                "internalType": "uint128[4]",
+                "name": "boards",
+                "type": "uint128[4]"
+            },
+            {
+                "internalType": "uint8[3]",
+                "name": "moves",
+                "type": "uint8[3]"
+            },
+            {
+                "internalType": "uint256",
+                "name": "deadline",
+                "type": "uint256"
+            },
+            {
+                "internalType": "bytes",
+                "name": "signature",
+                "type": "bytes"
+            }
+        ],
+        "name": "startGameBySig",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "bytes32",
+                "name": "gameId",
+                "type": "bytes32"
+            }
+        ],
+        "name": "state",
+        "outputs": [
+            {
+                "internalType": "uint8",
+                "name": "move",
+                "type": "uint8"
+            },
+            {
+                "internalType": "uint88",
+                "name": "nextMove",
+                "type": "uint88"
+            },
+            {
+                "internalType": "uint32",
+                "name": "score",
+                "type": "uint32"
+            },
+            {
+                "internalType": "uint128",
+                "name": "board",
+                "type": "uint128"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    }
+] as const;
+
+export const BOARD_ABI = [
+    {
+        "inputs": [],
+        "name": "MoveInvalid",
+        "type": "error"
+    },
+    {
+        "inputs": [],
+        "name": "DOWN",
+        "outputs": [
+            {
+                "internalType": "uint8",
+                "name": "",
+                "type": "uint8"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "LEFT",
+        "outputs": [
+            {
+                "internalType": "uint8",
+                "name": "",
+                "type": "uint8"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "RIGHT",
+        "outputs": [
+            {
+                "internalType": "uint8",
+                "name": "",
+                "type": "uint8"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "UP",
+        "outputs": [
+            {
+                "internalType": "uint8",
+                "name": "",
+                "type": "uint8"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "bytes32",
+                "name": "seed",
+                "type": "bytes32"
+            }
+        ],
+        "name": "getStartPosition",
+        "outputs": [
+            {
+                "internalType": "uint128",
+                "name": "position",
+                "type": "uint128"
+            }
+        ],
+        "stateMutability": "pure",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint128",
+                "name": "board",
+                "type": "uint128"
+            },
+            {
+                "internalType": "uint8",
+                "name": "pos",
+                "type": "uint8"
+            }
+        ],
+        "name": "getTile",
+        "outputs": [
+            {
+                "internalType": "uint8",
+                "name": "",
+                "type": "uint8"
+            }
+        ],
+        "stateMutability": "pure",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint128",
+                "name": "board",
+                "type": "uint128"
+            },
+            {
+                "internalType": "bool",
+                "name": "isVertical",
+                "type": "bool"
+            },
+            {
+                "internalType": "bool",
+                "name": "isLeft",
+                "type": "bool"
+            }
+        ],
+        "name": "processMove",
+        "outputs": [
+            {
+                "internalType": "uint128",
+                "name": "result",
+                "type": "uint128"
+            },
+            {
+                "internalType": "uint256",
+                "name": "score",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "pure",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint128",
+                "name": "board",
+                "type": "uint128"
+            },
+            {
+                "internalType": "uint8",
+                "name": "move",
+                "type": "uint8"
+            },
+            {
+                "internalType": "uint256",
+                "name": "seed",
+                "type": "uint256"
+            }
+        ],
+        "name": "processMove",
+        "outputs": [
+            {
+                "internalType": "uint128",
+                "name": "result",
+                "type": "uint128"
+            },
+            {
+                "internalType": "uint256",
+                "name": "score",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "pure",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint128",
+                "name": "board",
+                "type": "uint128"
+            },
+            {
+                "internalType": "uint8",
+                "name": "pos",
+                "type": "uint8"
+            },
+            {
+                "internalType": "uint8",
+                "name": "value",
+                "type": "uint8"
+            }
+        ],
+        "name": "setTile",
+        "outputs": [
+            {
+                "internalType": "uint128",
+                "name": "",
+                "type": "uint128"
+            }
+        ],
+        "stateMutability": "pure",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint128",
+                "name": "board",
+                "type": "uint128"
+            }
+        ],
+        "name": "validateStartPosition",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "pure",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint128",
+                "name": "prevBoard",
+                "type": "uint128"
+            },
+            {
+                "internalType": "uint8",
+                "name": "move",
+                "type": "uint8"
+            },
+            {
+                "internalType": "uint128",
+                "name": "nextBoard",
+                "type": "uint128"
+            },
+            {
+                "internalType": "uint256",
+                "name": "seed",
+                "type": "uint256"
+            }
+        ],
+        "name": "validateTransformation",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "pure",
+        "type": "function"
+    }
+] as const;
+
+// Runtime code of the Board library, for deployless calls to its pure functions.
+export const BOARD_DEPLOYED_BYTECODE = "0x73000000000000000000000000000000000000000030146080604052600436106100b35760003560e01c806354c30fd91161007b57806354c30fd91461011d57806364cd1595146101305780637e8dbaf6146101385780638def51a114610163578063918a2a65146101955780639aff28fe146101a857600080fd5b806301df1995146100b85780630be27a04146100d75780631af4f970146100fa57806324f4ec51146101025780632b2f6a121461010a575b600080fd5b6100c0600181565b60405160ff90911681526020015b60405180910390f35b6100ea6100e5366004610a52565b6101bb565b60405190151581526020016100ce565b6100c0600381565b6100c0600081565b6100ea610118366004610a9d565b6101e4565b6100c061012b366004610abf565b610279565b6100c0600281565b61014b610146366004610af2565b6102ac565b6040516001600160801b0390911681526020016100ce565b610176610171366004610b1b565b61035b565b604080516001600160801b0390931683526020830191909152016100ce565b61014b6101a3366004610b5e565b61043a565b6101766101b6366004610b98565b61048e565b6000806101c986868561048e565b506001600160801b0390811690851614915050949350505050565b60006f030303030303030303030303030303036ffcfcfcfcfcfcfcfcfcfcfcfcfcfcfcfc831615158061022e5750600183901c83166f7fffffffffffffffffffffffffffffff1615155b1561023c5750600092915050565b60005b6001600160801b0384161561026f57610259600185610beb565b909316928061026781610c0a565b91505061023f565b6002149392505050565b600061028682600f610c23565b610291906008610c3c565b60ff16836001600160801b0316901c60ff1690505b92915050565b600080826040516020016102c291815260200190565b60408051601f198184030181529190528051602090910120905060006102e9601083610c75565b60109290921c91905060006102ff600f84610c75565b90508160ff168160ff161061031c578061031881610c89565b9150505b6103526103448583605a610331606489610c75565b1161033d57600161043a565b600261043a565b83605a610331606488610c75565b95945050505050565b600080600080856103705763ffffffff61037f565b6cff000000ff000000ff000000ff5b6001600160681b0316905060005b600481101561042f5760006103a58984168989610627565b90506000806103b5838b8b610774565b91509150856001600160801b0316826001600160801b0316901b8817975080876103df9190610ca8565b9650896103ed5760206103f0565b60085b6103fd9060ff1687610cbb565b95508961040b57602061040e565b60085b60ff168b6001600160801b0316901c9a50505050808060010191505061038d565b505050935093915050565b60008061044884600f610c23565b610453906008610c3c565b60ff9081161b9050600061046885600f610c23565b610473906008610c3c565b91199590951660ff938416919093161b919091179392505050565b60008060048460ff16106104d75760405162461bcd60e51b815260206004820152600b60248201526a135bdd99525b9d985b1a5960aa1b60448201526064015b60405180910390fd5b6104f785600160ff871611156104ee600288610cda565b60ff161561035b565b90925090506001600160801b03808316908616036105455760405162461bcd60e51b815260206004820152600b60248201526a135bdd99525b9d985b1a5960aa1b60448201526064016104ce565b60ff60781b600080805b6001600160801b038416156105c5578386166001600160801b03166000036105a2578161057b81610cfc565b9250610588906008610d1e565b6001600160801b0316816001600160801b0316901b831792505b6008846001600160801b0316901c935080806105bd90610cfc565b91505061054f565b6001600160801b0382161561061b5760006105e96001600160801b03841689610c75565b6105f4906008610d40565b6001600160801b038516901c60ff1690506106178782605a61033160648d610c75565b9650505b50505050935093915050565b60008083610636576008610639565b60205b60ff16905060008361064c5760ff610661565b8461065b5763ff000000610661565b60ff60601b5b6001600160681b0316905060008561067d5763ffffffff61068c565b6cff000000ff000000ff000000ff5b6001600160681b031690505b6001600160801b038216158015906106b857506001600160801b03871615155b1561076a575b60008188166001600160801b03161180156106e257506001600160801b0387831616155b15610725578461070757826001600160801b0316876001600160801b0316901c61071e565b826001600160801b0316876001600160801b0316901b5b96506106be565b818716841793508461074c57826001600160801b0316826001600160801b0316901b610763565b826001600160801b0316826001600160801b0316901c5b9150610698565b5050509392505050565b600080600084610785576008610788565b60205b60ff16905060008461079b5760ff6107b0565b856107aa5763ff0000006107b0565b60ff60601b5b6001600160681b031690506000866107cc5763ffffffff6107db565b6cff000000ff000000ff000000ff5b6001600160681b0316905060008661080857836001600160801b0316836001600160801b0316901b61081f565b836001600160801b0316836001600160801b0316901c5b905060008761082f576001610844565b8861083e576301000000610844565b600160601b5b6001600160681b031690505b6001600160801b03838b161615610a185760008861088557856001600160801b0316838c166001600160801b0316901c61089e565b856001600160801b0316838c166001600160801b0316901b5b9050806001600160801b0316858c166001600160801b03160361092757886108db57856001600160801b03168b6001600160801b0316901c6108f2565b856001600160801b03168b6001600160801b0316901b5b9a506108fe828c610cbb565b9a5061090c82868d16610d57565b6001600160801b03166001901b876109249190610ca8565b96505b848b16881797508861094e57856001600160801b0316856001600160801b0316901b610965565b856001600160801b0316856001600160801b0316901c5b94508861098757856001600160801b0316836001600160801b0316901b61099e565b856001600160801b0316836001600160801b0316901c5b9250886109c057856001600160801b0316826001600160801b0316901b6109d7565b856001600160801b0316826001600160801b0316901c5b9150886109f957856001600160801b0316846001600160801b0316901b610a10565b856001600160801b0316846001600160801b0316901c5b935050610850565b5050505050935093915050565b80356001600160801b0381168114610a3c57600080fd5b919050565b803560ff81168114610a3c57600080fd5b60008060008060808587031215610a6857600080fd5b610a7185610a25565b9350610a7f60208601610a41565b9250610a8d60408601610a25565b9396929550929360600135925050565b600060208284031215610aaf57600080fd5b610ab882610a25565b9392505050565b60008060408385031215610ad257600080fd5b610adb83610a25565b9150610ae960208401610a41565b90509250929050565b600060208284031215610b0457600080fd5b5035919050565b80358015158114610a3c57600080fd5b600080600060608486031215610b3057600080fd5b610b3984610a25565b9250610b4760208501610b0b565b9150610b5560408501610b0b565b90509250925092565b600080600060608486031215610b7357600080fd5b610b7c84610a25565b9250610b8a60208501610a41565b9150610b5560408501610a41565b600080600060608486031215610bad57600080fd5b610bb684610a25565b9250610bc460208501610a41565b929592945050506040919091013590565b634e487b7160e01b600052601160045260246000fd5b6001600160801b0382811682821603908111156102a6576102a6610bd5565b600060018201610c1c57610c1c610bd5565b5060010190565b60ff82811682821603908111156102a6576102a6610bd5565b60ff8181168382160290811690818114610c5857610c58610bd5565b5092915050565b634e487b7160e01b600052601260045260246000fd5b600082610c8457610c84610c5f565b500690565b600060ff821660ff8103610c9f57610c9f610bd5565b60010192915050565b808201808211156102a6576102a6610bd5565b6001600160801b0381811683821601908111156102a6576102a6610bd5565b600060ff831680610ced57610ced610c5f565b8060ff84160691505092915050565b60006001600160801b0382166001600160801b038103610c9f57610c9f610bd5565b6001600160801b038181168382160290811690818114610c5857610c58610bd5565b80820281158282048414176102a6576102a6610bd5565b60006001600160801b03831680610d7057610d70610c5f565b806001600160801b038416049150509291505056fea2646970667358221220e00b74cda5a2b25d418714fad9112782cc35daa11926d06c6ddd78d80caa70e164736f6c634300081c0033";
@@ -1,14 +1,68 @@
-import { megaethTestnet } from "viem/chains";
-import { createPublicClient, http } from "viem";
+import { createPublicClient, custom } from "viem";
+import { createRpcPool } from "@/utils/rpcPool";
+import {
+    NetworkConfigError,
+    NetworkId,
+    proxyPath,
+    ResolvedNetwork,
+    resolveNetwork,
+} from "@/utils/networks";
 
 const environment = import.meta.env.VITE_APP_ENVIRONMENT;
-const rpc =
-    environment === "prod"
-        ? import.meta.env.VITE_MEGAETH_RPC_URL! ||
-          megaethTestnet.rpcUrls.default.http[0]
-        : megaethTestnet.rpcUrls.default.http[0];
+const local = window.location.hostname === "localhost";
+
+// The network picked in development, which outlives reloads.
+const NETWORK_CHOICE_KEY = "mega2048:network";
+
+function chosenNetwork(): ResolvedNetwork {
+    const chosen =
+        environment !== "prod"
+            ? localStorage.getItem(NETWORK_CHOICE_KEY)
+            : null;
+    if (chosen) {
+        try {
+            return resolveNetwork(import.meta.env, chosen);
+        } catch (error) {
+            if (!(error instanceof NetworkConfigError)) throw error;
+            console.warn(`Ignoring the chosen network "${chosen}":`, error);
+            localStorage.removeItem(NETWORK_CHOICE_KEY);
+        }
+    }
+    return resolveNetwork(import.meta.env);
+}
+
+// The network in use, validated before anything talks to it.
+export const NETWORK = chosenNetwork();
+
+/**
+ * Switches to another network. Every client is bound to one network, so
+ * the page reloads on it.
+ */
+export function chooseNetwork(id: NetworkId) {
+    localStorage.setItem(NETWORK_CHOICE_KEY, id);
+    window.location.reload();
+}
+
+// Every configured endpoint, with https ones reached through the dev
+// server proxy locally.
+export const rpcPool = createRpcPool(
+    NETWORK.rpcUrls.map((url) => ({
+        url,
+        requestUrl:
+            local && url.startsWith("https:") ? proxyPath(url) : undefined,
+    }))
+);
+
+// A viem transport over the pool, which retries and fails over itself.
+export const transport = custom(
+    {
+        request: ({ method, params }: { method: string; params?: unknown[] }) =>
+            rpcPool.request(method, params),
+    },
+    { retryCount: 0 }
+);
 
 export const publicClient = createPublicClient({
-    chain: megaethTestnet,
-    transport: http(rpc),
+    chain: NETWORK.chain,
+    transport,
 });
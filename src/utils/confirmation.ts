@@ -0,0 +1,138 @@
+import { NETWORK, publicClient, rpcPool } from "@/utils/client";
+import { RpcError } from "@/utils/jsonRpc";
+import {
+    createPublicClient,
+    formatTransactionReceipt,
+    Hex,
+    keccak256,
+    RpcTransactionReceipt,
+    TransactionReceipt,
+    WaitForTransactionReceiptTimeoutError,
+    webSocket,
+} from "viem";
+import { waitForTransactionReceipt } from "viem/actions";
+
+// How a transaction's receipt was obtained.
+export type ConfirmationPath = "realtime" | "websocket" | "polling";
+
+export type SentTransaction = {
+    hash: Hex;
+    path: ConfirmationPath;
+    receipt?: TransactionReceipt; // returned inline by the realtime API
+};
+
+export type Confirmation = {
+    receipt: TransactionReceipt;
+    path: ConfirmationPath;
+};
+
+// Receipts are polled this often when no subscription is available.
+const POLLING_INTERVAL = 50;
+
+// Subscriptions are only used when a WebSocket endpoint is configured.
+const wsClient = NETWORK.wsUrl
+    ? createPublicClient({
+          chain: NETWORK.chain,
+          transport: webSocket(NETWORK.wsUrl),
+      })
+    : null;
+
+// How receipts are waited for when they do not come back with the send.
+export const RECEIPT_PATH: ConfirmationPath = wsClient
+    ? "websocket"
+    : "polling";
+
+// Cleared the first time an endpoint turns out not to offer realtime_*.
+let realtimeAvailable = true;
+
+// Whether an RPC error says the endpoint does not offer the method.
+export function isUnsupported(error: { code?: number; message: string }) {
+    return (
+        error.code === -32601 ||
+        /method .*(not (found|supported|available)|does not exist)/i.test(
+            error.message
+        )
+    );
+}
+
+/**
+ * Sends a signed transaction through `realtime_sendRawTransaction`, which
+ * answers with the receipt once the transaction is in a mini block. Falls
+ * back to `eth_sendRawTransaction` where the realtime API is missing.
+ * Either goes to the next RPC endpoint when one does not answer.
+ *
+ * Throws the typed `RpcError`s of `jsonRpc.ts`, e.g. `AlreadyKnownError`.
+ */
+export async function sendRawTransaction(
+    signedTransaction: Hex
+): Promise<SentTransaction> {
+    if (realtimeAvailable) {
+        try {
+            const receipt = formatTransactionReceipt(
+                await rpcPool.request<RpcTransactionReceipt>(
+                    "realtime_sendRawTransaction",
+                    [signedTransaction]
+                )
+            );
+            return {
+                hash: receipt.transactionHash,
+                path: "realtime",
+                receipt,
+            };
+        } catch (error) {
+            if (!(error instanceof RpcError)) throw error;
+
+            // The node gave up waiting on the transaction, or we gave up
+            // waiting on the node; either way it may well be in.
+            if (/timeout|timed out/i.test(error.message)) {
+                return {
+                    hash: keccak256(signedTransaction),
+                    path: RECEIPT_PATH,
+                };
+            }
+            if (!isUnsupported(error)) throw error;
+        }
+
+        console.warn("Realtime API unavailable, falling back.");
+        realtimeAvailable = false;
+    }
+
+    return {
+        hash: await rpcPool.request<Hex>("eth_sendRawTransaction", [
+            signedTransaction,
+        ]),
+        path: RECEIPT_PATH,
+    };
+}
+
+/**
+ * Waits for a receipt over the WebSocket `newHeads` subscription, or by
+ * polling when there is no socket or it fails. Throws viem's
+ * `WaitForTransactionReceiptTimeoutError` after `timeout` ms.
+ */
+export async function waitForReceipt(
+    hash: Hex,
+    timeout: number
+): Promise<Confirmation> {
+    if (wsClient) {
+        try {
+            const receipt = await waitForTransactionReceipt(wsClient, {
+                hash,
+                timeout,
+            });
+            return { receipt, path: "websocket" };
+        } catch (error) {
+            if (error instanceof WaitForTransactionReceiptTimeoutError) {
+                throw error;
+            }
+            console.warn("WebSocket confirmation failed, polling:", error);
+        }
+    }
+
+    const receipt = await waitForTransactionReceipt(publicClient, {
+        hash,
+        timeout,
+        pollingInterval: POLLING_INTERVAL,
+    });
+    return { receipt, path: "polling" };
+}
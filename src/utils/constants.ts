@@ -1,2 +1,15 @@
-export const GAME_CONTRACT_ADDRESS =
-    "0xd235C7Bb0E76D78405168d6458CB2A6bF9249576";
+import { NETWORK } from "@/utils/client";
+
+export const GAME_CONTRACT_ADDRESS = NETWORK.contracts.game;
+
+// Moves after the opening are sent through `playBatch` when
+// VITE_MOVE_BATCH_SIZE is above 1. A batch is sent once it holds that many
+// moves, or VITE_MOVE_BATCH_WINDOW ms after its first move.
+const moveBatchSize = Number(import.meta.env.VITE_MOVE_BATCH_SIZE || 1);
+export const MOVE_BATCH =
+    moveBatchSize > 1
+        ? {
+              size: moveBatchSize,
+              window: Number(import.meta.env.VITE_MOVE_BATCH_WINDOW || 500),
+          }
+        : undefined;
@@ -0,0 +1,40 @@
+import { Address, Hex } from "viem";
+
+// The deployment manifest, contract-deployment/deployments.json: every
+// deployment of the game by chain id, as recorded by
+// contract-deployment/scripts/deploy.ts. The frontend takes its addresses
+// from it; deploy.ts uses it to redeploy only what changed.
+
+export const MANIFEST_VERSION = 1;
+
+export type CompilerSettings = {
+    version: string; // solc long version
+    optimizer: { enabled?: boolean; runs?: number };
+    evmVersion?: string;
+    viaIR?: boolean;
+};
+
+// Hashes are null for deployments recorded after the fact, which the next
+// deploy replaces.
+export type ContractDeployment = {
+    address: Address;
+    transactionHash: Hex | null;
+    blockNumber: number | null;
+    bytecodeHash: Hex | null; // keccak256 of the unlinked creation bytecode's hex
+    abiHash: Hex | null; // keccak256 of the ABI as JSON
+    compiler: CompilerSettings | null;
+    libraries?: Record<string, Address>; // linked library addresses
+};
+
+export type ChainDeployment = {
+    network: string; // hardhat network name
+    contracts: {
+        Board: ContractDeployment;
+        MEGAETH2048: ContractDeployment;
+    };
+};
+
+export type DeploymentManifest = {
+    version: typeof MANIFEST_VERSION;
+    chains: Record<string, ChainDeployment>;
+};
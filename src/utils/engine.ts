@@ -0,0 +1,322 @@
+import { encodePacked, Hex, hexToBigInt, keccak256 } from "viem";
+
+// =============================================================//
+//                            TYPES                             //
+// =============================================================//
+
+/**
+ * A 2048 board packed exactly like `Board` in LibBoard.sol: a uint128 with
+ * one byte per cell, cell 0 (top-left) in the most significant byte and
+ * cell 15 (bottom-right) in the least. Each byte stores log_2 of the tile.
+ */
+export type PackedBoard = bigint;
+
+export enum Direction {
+    UP,
+    DOWN,
+    LEFT,
+    RIGHT,
+}
+
+export type SlideResult = {
+    result: PackedBoard;
+    score: number;
+};
+
+// =============================================================//
+//                          CONSTANTS                           //
+// =============================================================//
+
+const UINT128_MAX = (1n << 128n) - 1n;
+
+const VERTICAL_MASK = 0x000000ff000000ff000000ff000000ffn;
+const HORIZONTAL_MASK = 0xffffffffn;
+
+// =============================================================//
+//                            TILES                             //
+// =============================================================//
+
+export function getTile(board: PackedBoard, pos: number): number {
+    return Number((board >> BigInt((15 - pos) * 8)) & 0xffn);
+}
+
+export function setTile(
+    board: PackedBoard,
+    pos: number,
+    value: number
+): PackedBoard {
+    const mask = 0xffn << BigInt((15 - pos) * 8);
+    const tile = BigInt(value) << BigInt((15 - pos) * 8);
+    return (board & ~mask & UINT128_MAX) | tile;
+}
+
+// Returns the log_2 values of all 16 cells, top-left first.
+export function boardToArray(board: PackedBoard): number[] {
+    return Array.from({ length: 16 }, (_, pos) => getTile(board, pos));
+}
+
+export function arrayToBoard(cells: readonly number[]): PackedBoard {
+    return cells.reduce<PackedBoard>(
+        (board, value, pos) => setTile(board, pos, value),
+        0n
+    );
+}
+
+// Cells where two boards differ, with the tile values (0 for empty) of each.
+export function diffBoards(
+    expected: PackedBoard,
+    actual: PackedBoard
+): { pos: number; expected: number; actual: number }[] {
+    const tileValue = (log2: number) => (log2 > 0 ? 2 ** log2 : 0);
+    return boardToArray(expected).flatMap((value, pos) => {
+        const other = getTile(actual, pos);
+        return value === other
+            ? []
+            : [{ pos, expected: tileValue(value), actual: tileValue(other) }];
+    });
+}
+
+// =============================================================//
+//                            START                             //
+// =============================================================//
+
+/**
+ * Mirrors `Board.getStartPosition(bytes32)`: the opening board of a game is
+ * fully determined by its ID.
+ */
+export function getStartPosition(seed: Hex): PackedBoard {
+    // Generate pseudo-random seed and get first tile to populate.
+    let rseed = hexToBigInt(keccak256(encodePacked(["bytes32"], [seed])));
+    const pos1 = Number(rseed % 16n);
+    rseed >>= 16n;
+
+    // Get second tile to populate.
+    let pos2 = Number(rseed % 15n);
+    if (pos2 >= pos1) {
+        pos2++;
+    }
+
+    const value = rseed % 100n > 90n ? 2 : 1;
+    return setTile(setTile(0n, pos2, value), pos1, value);
+}
+
+// =============================================================//
+//                          VALIDATIONS                         //
+// =============================================================//
+
+export function validateStartPosition(board: PackedBoard): boolean {
+    const mask = 0x03030303030303030303030303030303n;
+
+    // any bit except last two bits in a slot cannot be active
+    // also, both of the last two cannot be active at the same time
+    if (
+        (board & ~mask & UINT128_MAX) !== 0n ||
+        (board & (board >> 1n)) !== 0n
+    ) {
+        return false;
+    }
+
+    let count = 0;
+    while (board !== 0n) {
+        // eliminate last active bit
+        board &= board - 1n;
+        count++;
+    }
+
+    return count === 2;
+}
+
+// Like the contract, throws "MoveInvalid" instead of returning false for
+// moves that are out of range or leave the board unchanged.
+export function validateTransformation(
+    prevBoard: PackedBoard,
+    move: number,
+    nextBoard: PackedBoard,
+    seed: bigint
+): boolean {
+    return processMove(prevBoard, move, seed) === nextBoard;
+}
+
+// =============================================================//
+//                        TRANSFORMATIONS                       //
+// =============================================================//
+
+/**
+ * Returns the seed the contract uses to place the new tile of a move,
+ * `uint256(keccak256(abi.encodePacked(gameId, moveNumber)))`.
+ */
+export function moveSeed(gameId: Hex, moveNumber: number | bigint): bigint {
+    return hexToBigInt(
+        keccak256(
+            encodePacked(["bytes32", "uint256"], [gameId, BigInt(moveNumber)])
+        )
+    );
+}
+
+/**
+ * Applies a move and places the seeded tile, mirroring
+ * `Board.processMove(uint128, uint8, uint256)`. Throws "MoveInvalid" where
+ * the contract would revert. The move's score is `slide(board, move).score`.
+ */
+export function processMove(
+    board: PackedBoard,
+    move: number,
+    seed: bigint
+): PackedBoard {
+    // Check: the move is valid.
+    if (!Number.isInteger(move) || move < 0 || move >= 4) {
+        throw new Error("MoveInvalid");
+    }
+
+    // Perform transformation on board to get resultant
+    let result = slide(board, move).result;
+
+    // Check: the move is playable.
+    if (board === result) {
+        throw new Error("MoveInvalid");
+    }
+
+    const emptyIndices: number[] = [];
+    for (let pos = 0; pos < 16; pos++) {
+        if (getTile(result, pos) === 0) {
+            emptyIndices.push(pos);
+        }
+    }
+
+    if (emptyIndices.length > 0) {
+        // Set a 2 (90% probability) or a 4 (10% probability) on the randomly chosen tile.
+        const tile = emptyIndices[Number(seed % BigInt(emptyIndices.length))];
+        result = setTile(result, tile, seed % 100n > 90n ? 2 : 1);
+    }
+
+    return result;
+}
+
+// Slides and merges the board in a direction without placing a new tile.
+export function slide(board: PackedBoard, move: Direction): SlideResult {
+    return slideBoard(board, move <= Direction.DOWN, move % 2 === 0);
+}
+
+/**
+ * Mirrors `Board.processMove(uint128, bool, bool)`: the slid board and the
+ * score earned by its merges (the sum of the merged tile values).
+ */
+export function slideBoard(
+    board: PackedBoard,
+    isVertical: boolean,
+    isLeft: boolean
+): SlideResult {
+    let result = 0n;
+    let score = 0;
+    let shift = 0n;
+
+    const extractMask = isVertical ? VERTICAL_MASK : HORIZONTAL_MASK;
+    for (let i = 0; i < 4; i++) {
+        const compressed = compress(extractMask & board, isVertical, isLeft);
+        const merged = merge(compressed, isVertical, isLeft);
+
+        result |= (merged.result << shift) & UINT128_MAX;
+        score += merged.score;
+        shift += isVertical ? 8n : 32n;
+
+        board >>= isVertical ? 8n : 32n;
+    }
+
+    return { result, score };
+}
+
+function compress(data: bigint, isVertical: boolean, isLeft: boolean): bigint {
+    const shift = isVertical ? 32n : 8n;
+    const reminderMask = isVertical ? VERTICAL_MASK : HORIZONTAL_MASK;
+    let mask = isLeft ? (isVertical ? 0xffn << 96n : 0xff000000n) : 0xffn;
+    let compressed = 0n;
+
+    while (mask !== 0n && data !== 0n) {
+        while ((data & reminderMask) > 0n && (data & mask) === 0n) {
+            data = isLeft ? (data << shift) & UINT128_MAX : data >> shift;
+        }
+        compressed |= data & mask;
+        mask = isLeft ? mask >> shift : (mask << shift) & UINT128_MAX;
+    }
+
+    return compressed;
+}
+
+function merge(
+    compressed: bigint,
+    isVertical: boolean,
+    isLeft: boolean
+): SlideResult {
+    const shift = isVertical ? 32n : 8n;
+
+    let mask = isLeft ? (isVertical ? 0xffn << 96n : 0xff000000n) : 0xffn;
+    let reminderMask = isVertical ? VERTICAL_MASK : HORIZONTAL_MASK;
+    let frontMask = isLeft ? mask >> shift : mask << shift;
+    let addition = isLeft ? (isVertical ? 1n << 96n : 0x01000000n) : 0x01n;
+
+    let result = 0n;
+    let score = 0;
+
+    while ((reminderMask & compressed) !== 0n) {
+        const front = isLeft
+            ? ((compressed & frontMask) << shift) & UINT128_MAX
+            : (compressed & frontMask) >> shift;
+        if ((compressed & mask) === front) {
+            compressed = isLeft
+                ? (compressed << shift) & UINT128_MAX
+                : compressed >> shift;
+            compressed += addition;
+            score += 2 ** Number((compressed & mask) / addition);
+        }
+        result |= compressed & mask;
+
+        mask = isLeft ? mask >> shift : (mask << shift) & UINT128_MAX;
+        frontMask = isLeft
+            ? frontMask >> shift
+            : (frontMask << shift) & UINT128_MAX;
+        addition = isLeft
+            ? addition >> shift
+            : (addition << shift) & UINT128_MAX;
+        reminderMask = isLeft
+            ? reminderMask >> shift
+            : (reminderMask << shift) & UINT128_MAX;
+    }
+
+    return { result, score };
+}
+
+// =============================================================//
+//                            STATUS                            //
+// =============================================================//
+
+export function canMove(board: PackedBoard, move: Direction): boolean {
+    return slide(board, move).result !== board;
+}
+
+// A board is over once no direction changes it.
+export function isGameOver(board: PackedBoard): boolean {
+    return [
+        Direction.UP,
+        Direction.DOWN,
+        Direction.LEFT,
+        Direction.RIGHT,
+    ].every((move) => !canMove(board, move));
+}
+
+export function maxTile(board: PackedBoard): number {
+    const highest = Math.max(...boardToArray(board));
+    return highest > 0 ? 2 ** highest : 0;
+}
+
+// Tiles worth celebrating; the first one wins the game.
+export const MILESTONES = [2048, 4096, 8192];
+
+// Milestones first reached by going from one board to the next.
+export function newMilestones(
+    previous: PackedBoard,
+    next: PackedBoard
+): number[] {
+    const before = maxTile(previous);
+    const after = maxTile(next);
+    return MILESTONES.filter((tile) => tile > before && tile <= after);
+}
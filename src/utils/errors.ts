@@ -0,0 +1,195 @@
+import { BOARD_ABI, MEGAETH2048_ABI } from "@/utils/abi";
+import { NonceTooLowError, RateLimitedError } from "@/utils/jsonRpc";
+import { BaseError, decodeErrorResult, Hex } from "viem";
+
+// What the game does to get going again after an error.
+export type Recovery =
+    | "resync" // read the board back from the chain
+    | "newGame" // start over with a fresh game ID
+    | "faucet" // top up the embedded wallet
+    | "resyncNonce" // rebuild the nonce counter, then resync
+    | "endSession" // drop the session key and play from the wallet
+    | "none"; // leave it to the player
+
+/**
+ * Base class of every error a game transaction fails with. `recovery` says
+ * how the game reacts to it; unrecognized errors are wrapped as they are.
+ */
+export class GameError extends Error {
+    readonly recovery: Recovery = "none";
+
+    constructor(message: string) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+// The submitted board is not what the contract computes from its own.
+export class GameBoardInvalidError extends GameError {
+    readonly recovery = "resync";
+
+    constructor() {
+        super("The board does not match the one on-chain.");
+    }
+}
+
+// The move is out of range or leaves the on-chain board unchanged.
+export class MoveInvalidError extends GameError {
+    readonly recovery = "resync";
+
+    constructor() {
+        super("The move is not valid on the on-chain board.");
+    }
+}
+
+// The game ID was derived from a different address than the signer's.
+export class GamePlayerInvalidError extends GameError {
+    readonly recovery = "newGame";
+
+    constructor() {
+        super("The game belongs to a different player.");
+    }
+}
+
+export class GameIdUsedError extends GameError {
+    readonly recovery = "newGame";
+
+    constructor() {
+        super("A game with this ID has already been started.");
+    }
+}
+
+// The same opening boards have been played in another game.
+export class GamePlayedError extends GameError {
+    readonly recovery = "newGame";
+
+    constructor() {
+        super("This game has already been played.");
+    }
+}
+
+// The session key expired, ran out of moves or was revoked.
+export class SessionInvalidError extends GameError {
+    readonly recovery = "endSession";
+
+    constructor() {
+        super("The session key can no longer play for this player.");
+    }
+}
+
+// A signed payload expired, or its nonce is not the player's next one.
+export class SignatureInvalidError extends GameError {
+    readonly recovery = "resyncNonce";
+
+    constructor() {
+        super("The signed move is expired or out of order.");
+    }
+}
+
+export class InsufficientFundsError extends GameError {
+    readonly recovery = "faucet";
+
+    constructor() {
+        super("Insufficient balance to pay for moves.");
+    }
+}
+
+// The gas limit is below what the transaction uses, or above the block's.
+export class GasLimitError extends GameError {}
+
+// The node and the local queue disagree on the signer's nonce.
+export class NonceError extends GameError {
+    readonly recovery = "resyncNonce";
+}
+
+const REVERTS = {
+    GameBoardInvalid: GameBoardInvalidError,
+    MoveInvalid: MoveInvalidError,
+    GamePlayerInvalid: GamePlayerInvalidError,
+    GameIdUsed: GameIdUsedError,
+    GamePlayed: GamePlayedError,
+    SessionInvalid: SessionInvalidError,
+    SignatureInvalid: SignatureInvalidError,
+} as const;
+
+type RevertName = keyof typeof REVERTS;
+
+// Custom errors of the game and the Board library. Error(string), which the
+// contracts revert with through `require`, is decoded by viem regardless.
+const ERRORS_ABI = [...MEGAETH2048_ABI, ...BOARD_ABI].filter(
+    (item) => item.type === "error"
+);
+
+const REVERT_NAME = new RegExp(`\\b(${Object.keys(REVERTS).join("|")})\\b`);
+
+function isRevertName(name: string): name is RevertName {
+    return name in REVERTS;
+}
+
+// Revert data somewhere in a viem error's causes, as viem itself finds it.
+function revertData(error: unknown): Hex | undefined {
+    if (!(error instanceof BaseError)) return undefined;
+    const cause = error.walk() as { data?: Hex | { data?: Hex } };
+    return typeof cause?.data === "object" ? cause.data.data : cause?.data;
+}
+
+// Name of the custom error or require reason encoded in revert data.
+export function decodeRevertName(data: Hex): string | undefined {
+    try {
+        // The inferred names leave out the built-in Error(string).
+        const { errorName, args } = decodeErrorResult({
+            abi: ERRORS_ABI,
+            data,
+        }) as { errorName: string; args?: readonly unknown[] };
+        return errorName === "Error" ? String(args?.[0]) : errorName;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Turns anything a game transaction threw into a `GameError`. Revert data
+ * is decoded when the error carries it; otherwise the revert name, a low
+ * balance or a nonce conflict is recognized from the node's message.
+ */
+export function decodeGameError(error: unknown): GameError {
+    if (error instanceof GameError) return error;
+
+    // viem's full message includes the node's details, which are matched.
+    const message = error instanceof Error ? error.message : String(error);
+    const shortMessage =
+        error instanceof BaseError ? error.shortMessage : message;
+    const data = revertData(error);
+    const name =
+        (data ? decodeRevertName(data) : undefined) ??
+        message.match(REVERT_NAME)?.[1];
+    if (name && isRevertName(name)) {
+        return new REVERTS[name]();
+    }
+
+    // Our own projection, or the node's check of the worst-case cost.
+    if (/insufficient (balance|funds)/i.test(message)) {
+        return new InsufficientFundsError();
+    }
+
+    if (
+        /exceeds block gas limit|out of gas|intrinsic gas too low/i.test(
+            message
+        )
+    ) {
+        return new GasLimitError(shortMessage);
+    }
+
+    if (
+        error instanceof NonceTooLowError ||
+        /nonce too (low|high)|invalid nonce|was replaced/i.test(message)
+    ) {
+        return new NonceError(shortMessage);
+    }
+
+    if (error instanceof RateLimitedError) {
+        return new GameError("The RPC is rate limiting requests, retry soon.");
+    }
+
+    return new GameError(shortMessage);
+}
@@ -0,0 +1,271 @@
+// A JSON-RPC 2.0 client over HTTP. Every request gets its own ID and a
+// timeout, and is retried with exponential backoff, but only after errors
+// that are worth another attempt.
+
+export type JsonRpcCall = {
+    method: string;
+    params?: unknown[];
+};
+
+type JsonRpcResponse = {
+    jsonrpc: "2.0";
+    id: number;
+    result?: unknown;
+    error?: { code: number; message: string; data?: unknown };
+};
+
+export type JsonRpcClientOptions = {
+    url: string;
+    timeout?: number; // ms before a request is aborted
+    retries?: number; // attempts after the first, for retryable errors
+    retryDelay?: number; // ms before the first retry, doubled on each
+    maxRetryDelay?: number;
+};
+
+export type RequestOptions = {
+    timeout?: number;
+    retries?: number;
+};
+
+/**
+ * Base class of every error a JSON-RPC request fails with. `retryable`
+ * errors are those of the transport, not of the request itself. Resending
+ * a transaction after one is safe: a node that did get it answers with
+ * `AlreadyKnownError` or `NonceTooLowError`.
+ */
+export class RpcError extends Error {
+    readonly retryable: boolean = false;
+
+    constructor(
+        message: string,
+        readonly code?: number,
+        readonly data?: unknown
+    ) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+// The endpoint refused the request for now, with HTTP 429 or -32005.
+export class RateLimitedError extends RpcError {
+    readonly retryable = true;
+
+    constructor(message: string, code?: number, readonly retryAfter?: number) {
+        super(message, code);
+    }
+}
+
+// No response in time. The node may still act on the request.
+export class RpcTimeoutError extends RpcError {
+    readonly retryable = true;
+}
+
+// The request never got an answer from the node: a network failure or a
+// server error from the gateway in front of it.
+export class RpcTransportError extends RpcError {
+    readonly retryable = true;
+}
+
+// A transaction with this nonce has already been mined.
+export class NonceTooLowError extends RpcError {}
+
+// The node already holds this exact transaction.
+export class AlreadyKnownError extends RpcError {}
+
+// The fees are below the node's minimum, or too close to those of the
+// transaction it would replace.
+export class UnderpricedError extends RpcError {}
+
+// Turns a JSON-RPC error object into the matching typed error.
+function rpcError({
+    code,
+    message,
+    data,
+}: NonNullable<JsonRpcResponse["error"]>): RpcError {
+    if (code === -32005 || /rate limit|too many requests/i.test(message)) {
+        return new RateLimitedError(message, code);
+    }
+    if (/nonce too low/i.test(message)) {
+        return new NonceTooLowError(message, code, data);
+    }
+    if (/already known|already imported/i.test(message)) {
+        return new AlreadyKnownError(message, code, data);
+    }
+    if (/underpriced|fee too low|max fee per gas less than/i.test(message)) {
+        return new UnderpricedError(message, code, data);
+    }
+    return new RpcError(message, code, data);
+}
+
+// Full jitter: a random delay up to the exponential bound.
+export function backoff(attempt: number, base: number, max: number) {
+    return Math.random() * Math.min(max, base * 2 ** attempt);
+}
+
+export function createJsonRpcClient({
+    url,
+    timeout: defaultTimeout = 10_000,
+    retries: defaultRetries = 3,
+    retryDelay = 250,
+    maxRetryDelay = 4_000,
+}: JsonRpcClientOptions) {
+    let nextId = 1;
+
+    // One HTTP round trip, aborted after `timeout` ms.
+    async function post(body: unknown, timeout: number): Promise<unknown> {
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), timeout);
+
+        try {
+            const response = await fetch(url, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(body),
+                credentials: "omit",
+                cache: "no-cache",
+                signal: controller.signal,
+            });
+
+            if (response.status === 429) {
+                const retryAfter = Number(response.headers.get("Retry-After"));
+                throw new RateLimitedError(
+                    "Rate limited by the RPC endpoint.",
+                    429,
+                    retryAfter > 0 ? retryAfter * 1000 : undefined
+                );
+            }
+            if (!response.ok) {
+                const message =
+                    response.statusText || `HTTP error ${response.status}`;
+                throw response.status >= 500
+                    ? new RpcTransportError(message, response.status)
+                    : new RpcError(message, response.status);
+            }
+            return await response.json();
+        } catch (error) {
+            if (error instanceof RpcError) throw error;
+            if (controller.signal.aborted) {
+                throw new RpcTimeoutError(
+                    `Request timed out after ${timeout} ms.`
+                );
+            }
+            throw new RpcTransportError((error as Error).message);
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    // Runs `attempt` until it succeeds, fails for good or runs out of retries.
+    async function withRetries<T>(
+        attempt: () => Promise<T>,
+        retries: number
+    ): Promise<T> {
+        for (let i = 0; ; i++) {
+            try {
+                return await attempt();
+            } catch (error) {
+                if (
+                    !(error instanceof RpcError) ||
+                    !error.retryable ||
+                    i >= retries
+                ) {
+                    throw error;
+                }
+
+                const delay =
+                    (error instanceof RateLimitedError && error.retryAfter) ||
+                    backoff(i, retryDelay, maxRetryDelay);
+                console.warn(
+                    `Retrying in ${Math.round(delay)} ms (${
+                        i + 1
+                    }/${retries}):`,
+                    error.message
+                );
+                await new Promise((resolve) => setTimeout(resolve, delay));
+            }
+        }
+    }
+
+    /**
+     * Sends a single request and resolves with its result. JSON-RPC errors
+     * are thrown as typed `RpcError`s.
+     */
+    function request<T = unknown>(
+        method: string,
+        params: unknown[] = [],
+        {
+            timeout = defaultTimeout,
+            retries = defaultRetries,
+        }: RequestOptions = {}
+    ): Promise<T> {
+        return withRetries(async () => {
+            const id = nextId++;
+            const response = (await post(
+                { jsonrpc: "2.0", id, method, params },
+                timeout
+            )) as JsonRpcResponse;
+
+            if (response.error) throw rpcError(response.error);
+            return response.result as T;
+        }, retries);
+    }
+
+    /**
+     * Sends several requests in one round trip. Like `Promise.allSettled`,
+     * resolves with each call's result or error, in the order of `calls`;
+     * only the round trip itself is retried.
+     */
+    function batch(
+        calls: JsonRpcCall[],
+        {
+            timeout = defaultTimeout,
+            retries = defaultRetries,
+        }: RequestOptions = {}
+    ): Promise<PromiseSettledResult<unknown>[]> {
+        return withRetries(async () => {
+            const ids = calls.map(() => nextId++);
+            const responses = await post(
+                calls.map(({ method, params = [] }, i) => ({
+                    jsonrpc: "2.0",
+                    id: ids[i],
+                    method,
+                    params,
+                })),
+                timeout
+            );
+
+            // A node that rejects the whole batch answers with one error.
+            if (!Array.isArray(responses)) {
+                throw rpcError(
+                    (responses as JsonRpcResponse).error ?? {
+                        code: -32603,
+                        message: "Malformed batch response.",
+                    }
+                );
+            }
+
+            const byId = new Map(
+                (responses as JsonRpcResponse[]).map((response) => [
+                    response.id,
+                    response,
+                ])
+            );
+            return ids.map((id): PromiseSettledResult<unknown> => {
+                const response = byId.get(id);
+                if (!response) {
+                    return {
+                        status: "rejected",
+                        reason: new RpcError("Missing from batch response."),
+                    };
+                }
+                return response.error
+                    ? { status: "rejected", reason: rpcError(response.error) }
+                    : { status: "fulfilled", value: response.result };
+            });
+        }, retries);
+    }
+
+    return { url, request, batch };
+}
+
+export type JsonRpcClient = ReturnType<typeof createJsonRpcClient>;
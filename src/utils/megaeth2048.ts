@@ -0,0 +1,151 @@
+import { publicClient } from "@/utils/client";
+import { GAME_CONTRACT_ADDRESS } from "@/utils/constants";
+import {
+    BOARD_ABI,
+    BOARD_DEPLOYED_BYTECODE,
+    MEGAETH2048_ABI,
+} from "@/utils/abi";
+import {
+    Address,
+    ContractFunctionArgs,
+    ContractFunctionName,
+    ContractFunctionReturnType,
+    encodeFunctionData,
+    getContract,
+    Hex,
+    PublicClient,
+} from "viem";
+
+type GameAbi = typeof MEGAETH2048_ABI;
+type BoardAbi = typeof BOARD_ABI;
+
+type GameWrite = ContractFunctionName<GameAbi, "nonpayable" | "payable">;
+type GameWriteArgs<functionName extends GameWrite> = ContractFunctionArgs<
+    GameAbi,
+    "nonpayable" | "payable",
+    functionName
+>;
+type BoardRead = ContractFunctionName<BoardAbi, "pure" | "view">;
+
+export type MegaEth2048ClientOptions = {
+    address?: Address;
+    // Without a deployed Board library, its functions run deployless.
+    boardAddress?: Address;
+    client?: PublicClient;
+};
+
+/**
+ * Typed access to every function of MEGAETH2048 and the Board library,
+ * built on the generated ABIs in `abi.ts`.
+ *
+ * Writes are returned as calldata rather than sent, because game
+ * transactions are signed and broadcast by the transaction queue.
+ */
+export function createMegaEth2048Client({
+    address = GAME_CONTRACT_ADDRESS,
+    boardAddress,
+    client = publicClient,
+}: MegaEth2048ClientOptions = {}) {
+    const game = getContract({ address, abi: MEGAETH2048_ABI, client });
+
+    function readBoard<
+        const functionName extends BoardRead,
+        const args extends ContractFunctionArgs<
+            BoardAbi,
+            "pure" | "view",
+            functionName
+        >
+    >(
+        functionName: functionName,
+        args: args
+    ): Promise<
+        ContractFunctionReturnType<
+            BoardAbi,
+            "pure" | "view",
+            functionName,
+            args
+        >
+    > {
+        const parameters = { abi: BOARD_ABI, functionName, args };
+        return boardAddress
+            ? client.readContract<BoardAbi, functionName, args>({
+                  ...parameters,
+                  address: boardAddress,
+              })
+            : client.readContract<BoardAbi, functionName, args>({
+                  ...parameters,
+                  code: BOARD_DEPLOYED_BYTECODE,
+              });
+    }
+
+    return {
+        address,
+        abi: MEGAETH2048_ABI,
+
+        // Views: state, nextMove, latestBoard, getBoard, getScore,
+        // isMoveConfirmed, moveConfirmed, gameHashOf, calculateSeed,
+        // sessions and nonces.
+        read: game.read,
+
+        // Dry runs of the writes for a given account.
+        simulate: game.simulate,
+        estimateGas: game.estimateGas,
+
+        // Calldata for startGame, play and playBatch, their signed variants
+        // for relayers, and for authorizing and revoking session keys.
+        encode: {
+            startGame: (args: GameWriteArgs<"startGame">): Hex =>
+                encodeFunctionData({
+                    abi: MEGAETH2048_ABI,
+                    functionName: "startGame",
+                    args,
+                }),
+            play: (args: GameWriteArgs<"play">): Hex =>
+                encodeFunctionData({
+                    abi: MEGAETH2048_ABI,
+                    functionName: "play",
+                    args,
+                }),
+            playBatch: (args: GameWriteArgs<"playBatch">): Hex =>
+                encodeFunctionData({
+                    abi: MEGAETH2048_ABI,
+                    functionName: "playBatch",
+                    args,
+                }),
+            startGameBySig: (args: GameWriteArgs<"startGameBySig">): Hex =>
+                encodeFunctionData({
+                    abi: MEGAETH2048_ABI,
+                    functionName: "startGameBySig",
+                    args,
+                }),
+            playBySig: (args: GameWriteArgs<"playBySig">): Hex =>
+                encodeFunctionData({
+                    abi: MEGAETH2048_ABI,
+                    functionName: "playBySig",
+                    args,
+                }),
+            authorizeSession: (args: GameWriteArgs<"authorizeSession">): Hex =>
+                encodeFunctionData({
+                    abi: MEGAETH2048_ABI,
+                    functionName: "authorizeSession",
+                    args,
+                }),
+            revokeSession: (args: GameWriteArgs<"revokeSession">): Hex =>
+                encodeFunctionData({
+                    abi: MEGAETH2048_ABI,
+                    functionName: "revokeSession",
+                    args,
+                }),
+        },
+
+        board: {
+            abi: BOARD_ABI,
+            read: readBoard,
+        },
+    };
+}
+
+export type MegaEth2048Client = ReturnType<typeof createMegaEth2048Client>;
+
+// Client for the configured game contract.
+export const megaEth2048 = createMegaEth2048Client();
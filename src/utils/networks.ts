@@ -0,0 +1,242 @@
+import {
+    Address,
+    Chain,
+    defineChain,
+    isAddress,
+    keccak256,
+    stringToHex,
+} from "viem";
+import { hardhat, megaeth, megaethTestnet } from "viem/chains";
+import { MEGAETH2048_ABI } from "./abi";
+import { ChainDeployment, DeploymentManifest } from "./deployments";
+import manifest from "../../contract-deployment/deployments.json";
+
+// Networks the game can be played on, and how the one in use is picked
+// and overridden from VITE_ variables. Kept free of `import.meta.env` so
+// vite.config.ts can import it.
+
+export type NetworkId = "megaeth-testnet" | "megaeth" | "local";
+
+export type Network = {
+    id: NetworkId;
+    name: string;
+    chain: Chain;
+    rpcUrls: string[]; // in order of preference
+    wsUrl?: string; // confirms transactions over a newHeads subscription
+    contracts?: { game: Address; board: Address }; // unset until deployed
+    explorer?: { tx: string; address: string }; // `{hash}`, `{address}` filled in
+    currency: string;
+};
+
+// A network validated for play, which has a deployment.
+export type ResolvedNetwork = Network & Required<Pick<Network, "contracts">>;
+
+export const DEFAULT_NETWORK: NetworkId = "megaeth-testnet";
+
+const DEPLOYMENTS = manifest as DeploymentManifest;
+
+// The ABI hash scripts/deploy.ts records for a game abi.ts matches.
+const ABI_HASH = keccak256(stringToHex(JSON.stringify(MEGAETH2048_ABI)));
+
+// What scripts/deploy.ts recorded for a chain, if it was deployed to.
+export function deploymentOn(chainId: number): ChainDeployment | undefined {
+    return DEPLOYMENTS.chains[chainId];
+}
+
+function contractsOn(chainId: number): Network["contracts"] {
+    const deployment = deploymentOn(chainId);
+    return (
+        deployment && {
+            game: deployment.contracts.MEGAETH2048.address,
+            board: deployment.contracts.Board.address,
+        }
+    );
+}
+
+// The testnet carrot.megaeth.com serves, which hardhat.config.ts deploys
+// to. Later viem releases point `megaethTestnet` at a newer testnet.
+const carrot = defineChain({
+    ...megaethTestnet,
+    id: 6342,
+    rpcUrls: {
+        default: {
+            http: ["https://carrot.megaeth.com/rpc"],
+            webSocket: ["wss://carrot.megaeth.com/ws"],
+        },
+    },
+});
+
+export const NETWORKS: Record<NetworkId, Network> = {
+    "megaeth-testnet": {
+        id: "megaeth-testnet",
+        name: "MegaETH Testnet",
+        chain: carrot,
+        rpcUrls: [...carrot.rpcUrls.default.http],
+        contracts: contractsOn(carrot.id),
+        explorer: {
+            tx: "https://megaexplorer.xyz/tx/{hash}",
+            address: "https://megaexplorer.xyz/address/{address}",
+        },
+        currency: "ETH",
+    },
+    megaeth: {
+        id: "megaeth",
+        name: "MegaETH",
+        chain: megaeth,
+        rpcUrls: [...megaeth.rpcUrls.default.http],
+        contracts: contractsOn(megaeth.id),
+        explorer: {
+            tx: "https://mega.etherscan.io/tx/{hash}",
+            address: "https://mega.etherscan.io/address/{address}",
+        },
+        currency: "ETH",
+    },
+    // `npx hardhat node` or anvil, once scripts/deploy.ts has deployed to it
+    // with `--network localhost`.
+    local: {
+        id: "local",
+        name: "Local node",
+        chain: hardhat,
+        rpcUrls: [...hardhat.rpcUrls.default.http],
+        contracts: contractsOn(hardhat.id),
+        currency: "ETH",
+    },
+};
+
+// In development, an https endpoint is reached through the dev server at
+// `proxyPath(url)`, as not every endpoint answers cross-origin requests.
+export const RPC_PROXY_PATH = "/megaeth-rpc";
+
+export function proxyPath(url: string) {
+    const { host, pathname } = new URL(url);
+    return `${RPC_PROXY_PATH}/${host}${pathname}`;
+}
+
+// A configuration that does not describe a usable network.
+export class NetworkConfigError extends Error {
+    constructor(readonly problems: string[]) {
+        super(`Invalid network configuration:\n- ${problems.join("\n- ")}`);
+        this.name = new.target.name;
+    }
+}
+
+function isNetworkId(id: string): id is NetworkId {
+    return id in NETWORKS;
+}
+
+function isUrl(url: string, protocols: string[]) {
+    try {
+        return protocols.includes(new URL(url).protocol);
+    } catch {
+        return false;
+    }
+}
+
+function list(value: string | undefined) {
+    return (value ?? "")
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean);
+}
+
+/**
+ * The network `id`, by default VITE_NETWORK's, with the VITE_ overrides
+ * applied when it is VITE_NETWORK's:
+ *
+ * VITE_MEGAETH_RPC_URLS      comma-separated endpoints, in order of preference
+ *                            (or a single one in VITE_MEGAETH_RPC_URL)
+ * VITE_MEGAETH_WS_URL        WebSocket endpoint
+ * VITE_GAME_CONTRACT_ADDRESS MEGAETH2048 deployment
+ * VITE_BOARD_LIBRARY_ADDRESS Board library it is linked to
+ *
+ * Throws a `NetworkConfigError` naming every invalid value, and a recorded
+ * game whose ABI is not abi.ts's.
+ */
+export function resolveNetwork(
+    env: Record<string, string | undefined>,
+    id: string = env.VITE_NETWORK || DEFAULT_NETWORK
+): ResolvedNetwork {
+    if (!isNetworkId(id)) {
+        throw new NetworkConfigError([
+            `Unknown network "${id}", expected one of ${Object.keys(
+                NETWORKS
+            ).join(", ")}.`,
+        ]);
+    }
+
+    const network = { ...NETWORKS[id] };
+    if (id === (env.VITE_NETWORK || DEFAULT_NETWORK)) {
+        const rpcUrls = list(
+            env.VITE_MEGAETH_RPC_URLS || env.VITE_MEGAETH_RPC_URL
+        );
+        if (rpcUrls.length > 0) network.rpcUrls = rpcUrls;
+        network.wsUrl = env.VITE_MEGAETH_WS_URL || network.wsUrl;
+
+        const game = env.VITE_GAME_CONTRACT_ADDRESS;
+        const board = env.VITE_BOARD_LIBRARY_ADDRESS;
+        if (game || board) {
+            network.contracts = {
+                game: (game || network.contracts?.game) as Address,
+                board: (board || network.contracts?.board) as Address,
+            };
+        }
+    }
+
+    const problems = [
+        ...network.rpcUrls
+            .filter((url) => !isUrl(url, ["http:", "https:"]))
+            .map((url) => `RPC URL "${url}" is not an http(s) URL.`),
+        ...(network.wsUrl && !isUrl(network.wsUrl, ["ws:", "wss:"])
+            ? [`WebSocket URL "${network.wsUrl}" is not a ws(s) URL.`]
+            : []),
+    ];
+    if (!network.contracts) {
+        problems.push(
+            `${network.name} has no MEGAETH2048 deployment, set VITE_GAME_CONTRACT_ADDRESS.`
+        );
+    } else {
+        for (const [name, address] of Object.entries(network.contracts)) {
+            if (!address || !isAddress(address)) {
+                problems.push(`The ${name} address "${address}" is invalid.`);
+            }
+        }
+
+        // A recorded game must have the ABI the frontend was generated from;
+        // one recorded without an ABI hash predates the manifest.
+        const { game } = network.contracts;
+        const deployed = deploymentOn(network.chain.id)?.contracts.MEGAETH2048;
+        if (
+            deployed &&
+            deployed.address.toLowerCase() === game?.toLowerCase() &&
+            deployed.abiHash !== ABI_HASH
+        ) {
+            problems.push(
+                deployed.abiHash
+                    ? `The MEGAETH2048 at ${game} has another ABI than src/utils/abi.ts; regenerate it or redeploy.`
+                    : `The MEGAETH2048 at ${game} was recorded without its ABI and may predate src/utils/abi.ts; redeploy.`
+            );
+        }
+    }
+    if (problems.length > 0) throw new NetworkConfigError(problems);
+
+    return network as ResolvedNetwork;
+}
+
+// Every RPC endpoint a network may be configured with, for the dev proxy.
+export function allRpcUrls(env: Record<string, string | undefined>) {
+    const urls = Object.values(NETWORKS).flatMap(({ rpcUrls }) => rpcUrls);
+    urls.push(...list(env.VITE_MEGAETH_RPC_URLS || env.VITE_MEGAETH_RPC_URL));
+    return [...new Set(urls)];
+}
+
+// Link to a transaction or address on the network's explorer, if it has one.
+export function explorerUrl(
+    { explorer }: Network,
+    kind: "tx" | "address",
+    value: string
+) {
+    return explorer?.[kind].replace(
+        kind === "tx" ? "{hash}" : "{address}",
+        value
+    );
+}
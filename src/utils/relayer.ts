@@ -0,0 +1,133 @@
+import { MEGAETH2048_ABI } from "@/utils/abi";
+import { publicClient } from "@/utils/client";
+import { GAME_CONTRACT_ADDRESS } from "@/utils/constants";
+import { megaEth2048 } from "@/utils/megaeth2048";
+import {
+    GAME_TYPES,
+    gameDomain,
+    GameTypedData,
+    RelayerPlayer,
+    RelayRequest,
+} from "@/utils/typedData";
+import { decodeFunctionData, Hex } from "viem";
+
+// Relayer that submits signed moves and pays for them, see
+// contract-deployment/scripts/relayer.ts. Sponsored play is only offered
+// when one is configured.
+export const RELAYER_URL = import.meta.env.VITE_RELAYER_URL as
+    | string
+    | undefined;
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+    if (!RELAYER_URL) {
+        throw new Error("No relayer configured.");
+    }
+
+    const response = await fetch(`${RELAYER_URL}${path}`, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+        cache: "no-cache",
+    });
+    const body = await response.json();
+    if (!response.ok) {
+        // The relayer names contract errors, e.g. SignatureInvalid.
+        throw new Error(body.error ?? `Relayer error ${response.status}`);
+    }
+    return body;
+}
+
+export function getRelayerPlayer(player: Hex): Promise<RelayerPlayer> {
+    return request(`/players/${player}`);
+}
+
+// Hands a signed payload to the relayer, returning its transaction hash.
+export async function relay(payload: RelayRequest): Promise<Hex> {
+    const { hash } = await request<{ hash: Hex }>("/relay", {
+        method: "POST",
+        body: JSON.stringify(payload),
+    });
+    return hash;
+}
+
+/**
+ * Signs the payload equivalent to a startGame, play or playBatch call, and
+ * returns it with the calldata of the transaction the relayer sends for it.
+ */
+export async function signGameCall(
+    signTypedData: (typedData: GameTypedData) => Promise<Hex>,
+    call: Hex,
+    nonce: bigint,
+    deadline: bigint
+): Promise<{ payload: RelayRequest; data: Hex }> {
+    const domain = gameDomain(publicClient.chain.id, GAME_CONTRACT_ADDRESS);
+    const decoded = decodeFunctionData({ abi: MEGAETH2048_ABI, data: call });
+
+    if (decoded.functionName === "startGame") {
+        const [gameId, boards, moves] = decoded.args;
+        const signature = await signTypedData({
+            domain,
+            types: GAME_TYPES,
+            primaryType: "StartGame",
+            message: { gameId, boards, moves, nonce, deadline },
+        });
+
+        return {
+            payload: {
+                kind: "startGame",
+                gameId,
+                boards: boards.map(String),
+                moves: [...moves],
+                nonce: String(nonce),
+                deadline: String(deadline),
+                signature,
+            },
+            data: megaEth2048.encode.startGameBySig([
+                gameId,
+                boards,
+                moves,
+                deadline,
+                signature,
+            ]),
+        };
+    }
+
+    // A single play is signed as a batch of one.
+    let gameId: Hex, moves: readonly number[], resultBoards: readonly bigint[];
+    if (decoded.functionName === "play") {
+        [gameId, moves, resultBoards] = [
+            decoded.args[0],
+            [decoded.args[1]],
+            [decoded.args[2]],
+        ];
+    } else if (decoded.functionName === "playBatch") {
+        [gameId, moves, resultBoards] = decoded.args;
+    } else {
+        throw new Error(`${decoded.functionName} cannot be relayed.`);
+    }
+
+    const signature = await signTypedData({
+        domain,
+        types: GAME_TYPES,
+        primaryType: "Play",
+        message: { gameId, moves, resultBoards, nonce, deadline },
+    });
+
+    return {
+        payload: {
+            kind: "play",
+            gameId,
+            moves: [...moves],
+            resultBoards: resultBoards.map(String),
+            nonce: String(nonce),
+            deadline: String(deadline),
+            signature,
+        },
+        data: megaEth2048.encode.playBySig([
+            gameId,
+            moves,
+            resultBoards,
+            deadline,
+            signature,
+        ]),
+    };
+}
@@ -0,0 +1,175 @@
+import { NETWORK, publicClient } from "@/utils/client";
+import { GAME_CONTRACT_ADDRESS } from "@/utils/constants";
+import { MEGAETH2048_ABI } from "@/utils/abi";
+import { deploymentOn } from "@/utils/networks";
+import {
+    BlockNumber,
+    decodeFunctionData,
+    getAbiItem,
+    GetLogsReturnType,
+    Hex,
+} from "viem";
+import {
+    Direction,
+    moveSeed,
+    PackedBoard,
+    slide,
+    validateTransformation,
+} from "./engine";
+
+export type ReplayFrame = {
+    moveNumber: number;
+    move: Direction | null; // null for the start position
+    board: PackedBoard;
+    score: number;
+    verified: boolean; // the engine reproduces this board from the previous one
+};
+
+const NEW_GAME_EVENT = getAbiItem({ abi: MEGAETH2048_ABI, name: "NewGame" });
+const NEW_MOVE_EVENT = getAbiItem({ abi: MEGAETH2048_ABI, name: "NewMove" });
+
+// Blocks per eth_getLogs request; public endpoints reject larger ranges.
+const LOG_BLOCK_RANGE = 10_000n;
+
+// The block the game contract was deployed in, as recorded in the
+// deployment manifest, before which it has no logs.
+function deploymentBlock(): bigint {
+    const deployed = deploymentOn(NETWORK.chain.id)?.contracts.MEGAETH2048;
+    return deployed?.blockNumber != null &&
+        deployed.address.toLowerCase() === GAME_CONTRACT_ADDRESS.toLowerCase()
+        ? BigInt(deployed.blockNumber)
+        : 0n;
+}
+
+// A game's NewGame and NewMove logs from `fromBlock` on, fetched in ranges
+// of LOG_BLOCK_RANGE blocks.
+async function fetchGameLogs(gameId: Hex, fromBlock: bigint) {
+    const latest = await publicClient.getBlockNumber();
+    const newGameLogs: GetLogsReturnType<typeof NEW_GAME_EVENT> = [];
+    const newMoveLogs: GetLogsReturnType<typeof NEW_MOVE_EVENT> = [];
+
+    for (let from = fromBlock; from <= latest; from += LOG_BLOCK_RANGE) {
+        const range = {
+            address: GAME_CONTRACT_ADDRESS,
+            args: { id: gameId },
+            fromBlock: from,
+            toBlock:
+                from + LOG_BLOCK_RANGE - 1n < latest
+                    ? from + LOG_BLOCK_RANGE - 1n
+                    : latest,
+        };
+        if (newGameLogs.length === 0) {
+            newGameLogs.push(
+                ...(await publicClient.getLogs({
+                    ...range,
+                    event: NEW_GAME_EVENT,
+                }))
+            );
+            // Moves cannot come before the game.
+            if (newGameLogs.length === 0) continue;
+        }
+        newMoveLogs.push(
+            ...(await publicClient.getLogs({ ...range, event: NEW_MOVE_EVENT }))
+        );
+    }
+
+    return { newGameLogs, newMoveLogs };
+}
+
+// The opening boards and moves of the transaction that started a game,
+// sent by the player or by a relayer.
+function decodeStart(input: Hex) {
+    const decoded = decodeFunctionData({ abi: MEGAETH2048_ABI, data: input });
+    if (
+        decoded.functionName !== "startGame" &&
+        decoded.functionName !== "startGameBySig"
+    ) {
+        throw new Error(`Game was not started by ${decoded.functionName}.`);
+    }
+    const [, boards, moves] = decoded.args;
+    return { boards, moves };
+}
+
+/**
+ * Rebuilds every board of a game from its on-chain history. NewGame only
+ * carries the board after the third move, so the start position and the
+ * opening moves are decoded from the startGame or startGameBySig
+ * transaction itself.
+ */
+export async function fetchGameReplay(
+    gameId: Hex,
+    fromBlock: BlockNumber = deploymentBlock()
+): Promise<ReplayFrame[]> {
+    const { newGameLogs, newMoveLogs } = await fetchGameLogs(gameId, fromBlock);
+
+    const [newGameLog] = newGameLogs;
+    if (!newGameLog) {
+        throw new Error("Game not found.");
+    }
+
+    const startTransaction = await publicClient.getTransaction({
+        hash: newGameLog.transactionHash,
+    });
+    const { boards, moves } = decodeStart(startTransaction.input);
+
+    const frames: ReplayFrame[] = [
+        {
+            moveNumber: 0,
+            move: null,
+            board: boards[0],
+            score: 0,
+            verified: true,
+        },
+    ];
+
+    // NewMove carries the on-chain score; the opening moves are scored locally.
+    const pushMove = (move: number, board: PackedBoard, score?: number) => {
+        const previous = frames[frames.length - 1];
+        const moveNumber = previous.moveNumber + 1;
+
+        let verified: boolean;
+        try {
+            verified = validateTransformation(
+                previous.board,
+                move,
+                board,
+                moveSeed(gameId, moveNumber)
+            );
+        } catch {
+            verified = false;
+        }
+
+        frames.push({
+            moveNumber,
+            move: move as Direction,
+            board,
+            score:
+                score ??
+                previous.score +
+                    (verified ? slide(previous.board, move).score : 0),
+            verified,
+        });
+    };
+
+    for (let i = 0; i < 3; i++) {
+        pushMove(moves[i], boards[i + 1]);
+    }
+
+    // Moves are applied in strict order on-chain, so log order is move order.
+    const orderedMoves = [...newMoveLogs].sort((a, b) =>
+        a.blockNumber === b.blockNumber
+            ? a.logIndex - b.logIndex
+            : a.blockNumber < b.blockNumber
+            ? -1
+            : 1
+    );
+    for (const log of orderedMoves) {
+        pushMove(
+            Number(log.args.move!),
+            log.args.result!,
+            Number(log.args.score!)
+        );
+    }
+
+    return frames;
+}
@@ -0,0 +1,258 @@
+// Several RPC endpoints behind one `request` and `batch`. Each endpoint is
+// probed with `eth_blockNumber` for its round-trip time and height; requests
+// go to the active endpoint and fail over to the next best one when it does
+// not answer.
+
+import {
+    backoff,
+    createJsonRpcClient,
+    JsonRpcCall,
+    JsonRpcClient,
+    RateLimitedError,
+    RequestOptions,
+    RpcError,
+} from "@/utils/jsonRpc";
+
+export type RpcEndpoint = {
+    url: string; // as configured, and shown to the player
+    requestUrl?: string; // where requests go, if not `url`
+};
+
+export type EndpointStatus = {
+    url: string;
+    latency?: number; // moving average of probe round trips, ms
+    blockNumber?: bigint;
+    failures: number; // in a row, of requests and probes
+    healthy: boolean;
+};
+
+export type RpcPoolStatus = {
+    active: EndpointStatus;
+    endpoints: EndpointStatus[];
+};
+
+export type RpcPoolOptions = {
+    probeInterval?: number; // ms between probes
+    probeTimeout?: number;
+    timeout?: number; // ms before a request is aborted
+    retries?: number; // rounds over every endpoint after the first
+    maxFailures?: number; // failures in a row that make an endpoint unhealthy
+    maxLag?: number; // blocks an endpoint may trail the highest one
+};
+
+// Weight of the latest probe in an endpoint's moving average.
+const LATENCY_WEIGHT = 0.3;
+
+// A healthy active endpoint only gives way to one this much faster, so it
+// does not flap between endpoints of about the same speed.
+const SWITCH_RATIO = 0.7;
+
+type Endpoint = {
+    client: JsonRpcClient;
+    status: EndpointStatus;
+};
+
+export function createRpcPool(
+    endpoints: RpcEndpoint[],
+    {
+        probeInterval = 15_000,
+        probeTimeout = 3_000,
+        timeout = 10_000,
+        retries: defaultRetries = 2,
+        maxFailures = 2,
+        maxLag = 5,
+    }: RpcPoolOptions = {}
+) {
+    const pool: Endpoint[] = endpoints.map(({ url, requestUrl }) => ({
+        client: createJsonRpcClient({
+            url: requestUrl ?? url,
+            timeout,
+            retries: 0,
+        }),
+        status: { url, failures: 0, healthy: true },
+    }));
+
+    let active = pool[0];
+    let snapshot = statusOf();
+    const listeners = new Set<() => void>();
+    let probing: ReturnType<typeof setInterval> | undefined;
+
+    function statusOf(): RpcPoolStatus {
+        return {
+            active: { ...active.status },
+            endpoints: pool.map(({ status }) => ({ ...status })),
+        };
+    }
+
+    // Endpoints not probed yet count as slow as the probe timeout.
+    function latencyOf({ status }: Endpoint) {
+        return status.latency ?? probeTimeout;
+    }
+
+    // Healthy endpoints first, then the fastest; ties keep the configured
+    // order.
+    function ranked(): Endpoint[] {
+        return [...pool].sort(
+            (a, b) =>
+                Number(b.status.healthy) - Number(a.status.healthy) ||
+                latencyOf(a) - latencyOf(b)
+        );
+    }
+
+    // Re-rates every endpoint, picks the active one and tells listeners.
+    function update() {
+        const height = pool.reduce(
+            (highest, { status }) =>
+                status.blockNumber !== undefined && status.blockNumber > highest
+                    ? status.blockNumber
+                    : highest,
+            0n
+        );
+        for (const { status } of pool) {
+            const lagging =
+                status.blockNumber !== undefined &&
+                height - status.blockNumber > BigInt(maxLag);
+            status.healthy = status.failures < maxFailures && !lagging;
+        }
+
+        const [best] = ranked();
+        if (
+            best !== active &&
+            (!active.status.healthy ||
+                latencyOf(best) < latencyOf(active) * SWITCH_RATIO)
+        ) {
+            console.warn(`Switching RPC endpoint to ${best.status.url}.`);
+            active = best;
+        }
+
+        snapshot = statusOf();
+        listeners.forEach((listener) => listener());
+    }
+
+    // Measures every endpoint once.
+    async function probe() {
+        await Promise.all(
+            pool.map(async ({ client, status }) => {
+                const started = performance.now();
+                try {
+                    const blockNumber = await client.request<string>(
+                        "eth_blockNumber",
+                        [],
+                        { timeout: probeTimeout, retries: 0 }
+                    );
+                    const latency = performance.now() - started;
+                    status.latency =
+                        status.latency === undefined
+                            ? latency
+                            : status.latency +
+                              LATENCY_WEIGHT * (latency - status.latency);
+                    status.blockNumber = BigInt(blockNumber);
+                    status.failures = 0;
+                } catch {
+                    status.failures++;
+                }
+            })
+        );
+        update();
+    }
+
+    // Probes from the first use on, while the page is visible.
+    function startProbing() {
+        if (probing !== undefined) return;
+        probing = setInterval(() => {
+            if (!document.hidden) probe();
+        }, probeInterval);
+        probe();
+    }
+
+    // Runs `send` on the active endpoint, then on each other endpoint in
+    // turn while it fails with retryable `RpcError`s, for `retries` more
+    // rounds with backoff. Other errors are the node's answer and are
+    // thrown at once.
+    async function withFailover<T>(
+        send: (client: JsonRpcClient) => Promise<T>,
+        retries: number
+    ): Promise<T> {
+        startProbing();
+
+        for (let round = 0; ; round++) {
+            let lastError: RpcError | undefined;
+            const order = [active, ...ranked().filter((e) => e !== active)];
+
+            for (const endpoint of order) {
+                try {
+                    const result = await send(endpoint.client);
+                    if (endpoint.status.failures > 0) {
+                        endpoint.status.failures = 0;
+                        update();
+                    }
+                    return result;
+                } catch (error) {
+                    if (!(error instanceof RpcError) || !error.retryable) {
+                        throw error;
+                    }
+                    console.warn(
+                        `RPC endpoint ${endpoint.status.url} failed:`,
+                        error.message
+                    );
+                    endpoint.status.failures++;
+                    update();
+                    lastError = error;
+                }
+            }
+
+            if (round >= retries) throw lastError;
+            const delay =
+                (lastError instanceof RateLimitedError &&
+                    lastError.retryAfter) ||
+                backoff(round, 250, 4_000);
+            await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+    }
+
+    /**
+     * Sends a request through the pool, failing over between endpoints as
+     * `withFailover` does. Resending a transaction elsewhere is as safe as
+     * retrying it: see `RpcError`.
+     */
+    function request<T = unknown>(
+        method: string,
+        params: unknown[] = [],
+        { timeout, retries = defaultRetries }: RequestOptions = {}
+    ): Promise<T> {
+        return withFailover(
+            (client) =>
+                client.request<T>(method, params, { timeout, retries: 0 }),
+            retries
+        );
+    }
+
+    /**
+     * Sends several requests in one round trip, failing over like
+     * `request` when the round trip fails. Resolves like
+     * `Promise.allSettled`, with each call's result or error in the order
+     * of `calls`; errors of single calls are not retried.
+     */
+    function batch(
+        calls: JsonRpcCall[],
+        { timeout, retries = defaultRetries }: RequestOptions = {}
+    ): Promise<PromiseSettledResult<unknown>[]> {
+        return withFailover(
+            (client) => client.batch(calls, { timeout, retries: 0 }),
+            retries
+        );
+    }
+
+    // For `useSyncExternalStore`: the snapshot only changes on updates.
+    function subscribe(listener: () => void) {
+        listeners.add(listener);
+        startProbing();
+        return () => {
+            listeners.delete(listener);
+        };
+    }
+
+    return { request, batch, probe, subscribe, status: () => snapshot };
+}
+
+export type RpcPool = ReturnType<typeof createRpcPool>;
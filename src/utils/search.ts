@@ -0,0 +1,269 @@
+import { Hex } from "viem";
+import {
+    boardToArray,
+    Direction,
+    getTile,
+    moveSeed,
+    PackedBoard,
+    processMove,
+    setTile,
+    slide,
+} from "./engine";
+
+// =============================================================//
+//                            TYPES                             //
+// =============================================================//
+
+export type HintRequest = {
+    id: number;
+    board: PackedBoard;
+    // With a game ID and move number the seeded spawns are known in advance,
+    // so the search can look ahead exactly instead of averaging them.
+    exact?: {
+        gameId: Hex;
+        moveNumber: number;
+    };
+};
+
+export type HintResponse = {
+    id: number;
+    move: Direction | null;
+};
+
+// =============================================================//
+//                          CONSTANTS                           //
+// =============================================================//
+
+const DIRECTIONS = [
+    Direction.UP,
+    Direction.DOWN,
+    Direction.LEFT,
+    Direction.RIGHT,
+];
+
+// `Board.processMove` places a 4 when `seed % 100 > 90`.
+const SPAWNS = [
+    { value: 1, probability: 0.91 },
+    { value: 2, probability: 0.09 },
+];
+
+// Chance branches less likely than this are evaluated statically.
+const MIN_PROBABILITY = 0.0001;
+
+const EXACT_DEPTH = 6;
+
+// Line heuristic weights, tuned for the classic expectimax player.
+const LOST_PENALTY = 200000;
+const MONOTONICITY_POWER = 4;
+const MONOTONICITY_WEIGHT = 47;
+const SUM_POWER = 3.5;
+const SUM_WEIGHT = 11;
+const MERGES_WEIGHT = 700;
+const EMPTY_WEIGHT = 270;
+
+// =============================================================//
+//                          HEURISTIC                           //
+// =============================================================//
+
+const lineScores = new Map<number, number>();
+
+// Scores one row or column of log_2 tile values.
+function scoreLine(line: number[]): number {
+    const key = line[0] * 16777216 + line[1] * 65536 + line[2] * 256 + line[3];
+    const cached = lineScores.get(key);
+    if (cached !== undefined) return cached;
+
+    let sum = 0;
+    let empty = 0;
+    let merges = 0;
+    let previous = 0;
+    let counter = 0;
+    for (const rank of line) {
+        sum += Math.pow(rank, SUM_POWER);
+        if (rank === 0) {
+            empty++;
+        } else {
+            if (previous === rank) {
+                counter++;
+            } else if (counter > 0) {
+                merges += 1 + counter;
+                counter = 0;
+            }
+            previous = rank;
+        }
+    }
+    if (counter > 0) {
+        merges += 1 + counter;
+    }
+
+    let monotonicityLeft = 0;
+    let monotonicityRight = 0;
+    for (let i = 1; i < 4; i++) {
+        const a = Math.pow(line[i - 1], MONOTONICITY_POWER);
+        const b = Math.pow(line[i], MONOTONICITY_POWER);
+        if (line[i - 1] > line[i]) {
+            monotonicityLeft += a - b;
+        } else {
+            monotonicityRight += b - a;
+        }
+    }
+
+    const score =
+        LOST_PENALTY +
+        EMPTY_WEIGHT * empty +
+        MERGES_WEIGHT * merges -
+        MONOTONICITY_WEIGHT * Math.min(monotonicityLeft, monotonicityRight) -
+        SUM_WEIGHT * sum;
+
+    lineScores.set(key, score);
+    return score;
+}
+
+// Static evaluation of a board: higher is better.
+export function evaluateBoard(board: PackedBoard): number {
+    const cells = boardToArray(board);
+
+    let score = 0;
+    for (let i = 0; i < 4; i++) {
+        score += scoreLine(cells.slice(i * 4, i * 4 + 4));
+        score += scoreLine([
+            cells[i],
+            cells[i + 4],
+            cells[i + 8],
+            cells[i + 12],
+        ]);
+    }
+    return score;
+}
+
+// =============================================================//
+//                          EXPECTIMAX                          //
+// =============================================================//
+
+type Cache = Map<PackedBoard, { depth: number; value: number }>;
+
+function maxNode(
+    board: PackedBoard,
+    depth: number,
+    probability: number,
+    cache: Cache
+): number {
+    let best = 0;
+    for (const direction of DIRECTIONS) {
+        const { result } = slide(board, direction);
+        if (result === board) continue;
+
+        best = Math.max(best, chanceNode(result, depth, probability, cache));
+    }
+    return best;
+}
+
+function chanceNode(
+    board: PackedBoard,
+    depth: number,
+    probability: number,
+    cache: Cache
+): number {
+    if (depth === 0 || probability < MIN_PROBABILITY) {
+        return evaluateBoard(board);
+    }
+
+    const cached = cache.get(board);
+    if (cached && cached.depth >= depth) {
+        return cached.value;
+    }
+
+    const empty: number[] = [];
+    for (let pos = 0; pos < 16; pos++) {
+        if (getTile(board, pos) === 0) empty.push(pos);
+    }
+    if (empty.length === 0) {
+        return evaluateBoard(board);
+    }
+
+    let value = 0;
+    for (const pos of empty) {
+        for (const spawn of SPAWNS) {
+            const p = spawn.probability / empty.length;
+            value +=
+                p *
+                maxNode(
+                    setTile(board, pos, spawn.value),
+                    depth - 1,
+                    probability * p,
+                    cache
+                );
+        }
+    }
+
+    cache.set(board, { depth, value });
+    return value;
+}
+
+// Searches deeper as the board fills up and mistakes get costlier.
+function searchDepth(board: PackedBoard): number {
+    const empty = boardToArray(board).filter((value) => value === 0).length;
+    return empty > 6 ? 1 : empty > 3 ? 2 : 3;
+}
+
+// =============================================================//
+//                        EXACT LOOKAHEAD                       //
+// =============================================================//
+
+function exactValue(
+    board: PackedBoard,
+    seeds: bigint[],
+    depth: number
+): number {
+    if (depth === seeds.length) {
+        return evaluateBoard(board);
+    }
+
+    let best = 0;
+    for (const direction of DIRECTIONS) {
+        if (slide(board, direction).result === board) continue;
+
+        const next = processMove(board, direction, seeds[depth]);
+        best = Math.max(best, exactValue(next, seeds, depth + 1));
+    }
+    return best;
+}
+
+// =============================================================//
+//                            SEARCH                            //
+// =============================================================//
+
+/**
+ * Returns the best move for a board, or null when no move is possible.
+ * With `exact`, every future spawn is derived from the game's seeds
+ * instead of being averaged over.
+ */
+export function findBestMove(
+    board: PackedBoard,
+    exact?: HintRequest["exact"]
+): Direction | null {
+    const seeds = exact
+        ? Array.from({ length: EXACT_DEPTH }, (_, i) =>
+              moveSeed(exact.gameId, exact.moveNumber + i)
+          )
+        : [];
+    const depth = searchDepth(board);
+    const cache: Cache = new Map();
+
+    let bestMove: Direction | null = null;
+    let bestValue = -Infinity;
+    for (const direction of DIRECTIONS) {
+        const { result } = slide(board, direction);
+        if (result === board) continue;
+
+        const value = exact
+            ? exactValue(processMove(board, direction, seeds[0]), seeds, 1)
+            : chanceNode(result, depth, 1, cache);
+        if (value > bestValue) {
+            bestValue = value;
+            bestMove = direction;
+        }
+    }
+
+    return bestMove;
+}
@@ -0,0 +1,93 @@
+import { publicClient } from "@/utils/client";
+import { isUnsupported } from "@/utils/confirmation";
+import { GAME_CONTRACT_ADDRESS } from "@/utils/constants";
+import { decodeGameError, GameError, GasLimitError } from "@/utils/errors";
+import { Hex } from "viem";
+
+export type SimulationRequest = {
+    player: Hex;
+    data: Hex;
+    gas?: bigint; // unchecked when the sender, e.g. a relayer, picks it
+    queued: Hex[]; // calldata of the player's earlier, possibly unmined, transactions
+};
+
+// Cleared the first time the endpoint turns out not to offer eth_simulateV1.
+let simulateAvailable = true;
+
+/**
+ * Dry-runs a game transaction before it is signed and throws the
+ * `GameError` it would fail with. With `eth_simulateV1` it runs on top of
+ * the player's queued transactions; those mined meanwhile simply revert
+ * again. Without it, `eth_call` can only check a transaction with nothing
+ * queued ahead of it.
+ */
+export async function simulateTransaction({
+    player,
+    data,
+    gas,
+    queued,
+}: SimulationRequest): Promise<void> {
+    if (simulateAvailable) {
+        try {
+            const { block, results } = await publicClient.simulateCalls({
+                account: player,
+                calls: [...queued, data].map(
+                    (callData): { to: Hex; data: Hex } => ({
+                        to: GAME_CONTRACT_ADDRESS,
+                        data: callData,
+                    })
+                ),
+            });
+
+            const result = results[results.length - 1];
+            if (result.status === "failure") {
+                throw decodeGameError(result.error);
+            }
+            if (gas === undefined) return;
+            if (gas > block.gasLimit) {
+                throw new GasLimitError(
+                    `Gas limit ${gas} exceeds block gas limit ${block.gasLimit}.`
+                );
+            }
+            if (result.gasUsed > gas) {
+                throw new GasLimitError(
+                    `Transaction needs ${result.gasUsed} gas, limit is ${gas}.`
+                );
+            }
+            return;
+        } catch (error) {
+            if (error instanceof GameError) throw error;
+            if (!isUnsupported(error as Error)) {
+                // A failed dry run is no reason to hold the move back.
+                console.warn("Simulation failed, sending anyway:", error);
+                return;
+            }
+
+            console.warn("eth_simulateV1 unavailable, falling back.");
+            simulateAvailable = false;
+        }
+    }
+
+    // Earlier moves are invisible to eth_call until they are mined.
+    if (queued.length > 0) return;
+
+    try {
+        await publicClient.call({
+            account: player,
+            to: GAME_CONTRACT_ADDRESS,
+            data,
+            gas,
+        });
+    } catch (error) {
+        // Reverts and gas problems block the move, RPC trouble does not.
+        const decoded = decodeGameError(error);
+        if (
+            decoded.recovery !== "none" ||
+            decoded instanceof GasLimitError ||
+            /revert/i.test((error as Error).message)
+        ) {
+            throw decoded;
+        }
+        console.warn("Simulation failed, sending anyway:", error);
+    }
+}
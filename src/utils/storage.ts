@@ -0,0 +1,164 @@
+import { Hex } from "viem";
+import { NETWORK } from "@/utils/client";
+import { DEFAULT_NETWORK } from "@/utils/networks";
+
+// Games and sessions belong to one network. Those of the default network
+// keep the unscoped keys they were stored under before the network picker.
+function networkKey(prefix: string, address: string) {
+    const scope = NETWORK.id === DEFAULT_NETWORK ? "" : `${NETWORK.id}:`;
+    return `${prefix}${scope}${address.toLowerCase()}`;
+}
+
+// The latest state of a player's on-chain game, as shown by the Board.
+export type StoredGame = {
+    gameId: Hex;
+    encodedMoves: { board: bigint; move: number }[];
+    playedMovesCount: number;
+    board: bigint;
+    score: number;
+    updatedAt: number;
+};
+
+// JSON cannot hold bigints, so boards are stored as hex strings.
+type SerializedGame = Omit<StoredGame, "encodedMoves" | "board"> & {
+    encodedMoves: { board: string; move: number }[];
+    board: string;
+};
+
+const ACTIVE_GAME_PREFIX = "mega2048:active-game:";
+
+function activeGameKey(address: string) {
+    return networkKey(ACTIVE_GAME_PREFIX, address);
+}
+
+export function saveActiveGame(address: string, game: StoredGame) {
+    const serialized: SerializedGame = {
+        ...game,
+        encodedMoves: game.encodedMoves.map(({ board, move }) => ({
+            board: `0x${board.toString(16)}`,
+            move,
+        })),
+        board: `0x${game.board.toString(16)}`,
+    };
+
+    try {
+        localStorage.setItem(
+            activeGameKey(address),
+            JSON.stringify(serialized)
+        );
+    } catch (error) {
+        console.warn("Failed to persist active game:", error);
+    }
+}
+
+export function loadActiveGame(address: string): StoredGame | null {
+    try {
+        const item = localStorage.getItem(activeGameKey(address));
+        if (!item) return null;
+
+        const serialized: SerializedGame = JSON.parse(item);
+        return {
+            ...serialized,
+            encodedMoves: serialized.encodedMoves.map(({ board, move }) => ({
+                board: BigInt(board),
+                move,
+            })),
+            board: BigInt(serialized.board),
+        };
+    } catch (error) {
+        console.warn("Failed to load active game:", error);
+        return null;
+    }
+}
+
+export function clearActiveGame(address: string) {
+    try {
+        localStorage.removeItem(activeGameKey(address));
+    } catch (error) {
+        console.warn("Failed to clear active game:", error);
+    }
+}
+
+// A milestone tile reached during a game, kept for history and stats.
+export type MilestoneRecord = {
+    tile: number;
+    moveNumber: number;
+    score: number;
+    practice: boolean;
+    reachedAt: number;
+};
+
+const MILESTONES_KEY = "mega2048:milestones";
+
+export function loadAllMilestones(): Record<Hex, MilestoneRecord[]> {
+    try {
+        const item = localStorage.getItem(MILESTONES_KEY);
+        return item ? JSON.parse(item) : {};
+    } catch (error) {
+        console.warn("Failed to load milestones:", error);
+        return {};
+    }
+}
+
+export function loadMilestones(gameId: Hex): MilestoneRecord[] {
+    return loadAllMilestones()[gameId] ?? [];
+}
+
+// Keeps the first time each tile was reached in a game.
+export function recordMilestone(gameId: Hex, milestone: MilestoneRecord) {
+    const milestones = loadAllMilestones();
+    const recorded = milestones[gameId] ?? [];
+    if (recorded.some(({ tile }) => tile === milestone.tile)) return;
+
+    milestones[gameId] = [...recorded, milestone];
+    try {
+        localStorage.setItem(MILESTONES_KEY, JSON.stringify(milestones));
+    } catch (error) {
+        console.warn("Failed to record milestone:", error);
+    }
+}
+
+// A key the player authorized on-chain to play their games until `expiry`.
+export type StoredSession = {
+    privateKey: Hex;
+    expiry: number; // unix seconds
+    moveCap: number; // 0 for unlimited
+};
+
+const SESSION_PREFIX = "mega2048:session:";
+
+function sessionKey(player: string) {
+    return networkKey(SESSION_PREFIX, player);
+}
+
+export function saveSession(player: string, session: StoredSession) {
+    try {
+        localStorage.setItem(sessionKey(player), JSON.stringify(session));
+    } catch (error) {
+        console.warn("Failed to persist session key:", error);
+    }
+}
+
+// The player's session, expired or not: an expired key is kept until its
+// funding has been sent back.
+export function loadSession(player: string): StoredSession | null {
+    try {
+        const item = localStorage.getItem(sessionKey(player));
+        return item ? JSON.parse(item) : null;
+    } catch (error) {
+        console.warn("Failed to load session key:", error);
+        return null;
+    }
+}
+
+export function isSessionExpired({ expiry }: StoredSession) {
+    return expiry * 1000 <= Date.now();
+}
+
+export function clearSession(player: string) {
+    try {
+        localStorage.removeItem(sessionKey(player));
+    } catch (error) {
+        console.warn("Failed to clear session key:", error);
+    }
+}
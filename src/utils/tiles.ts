@@ -0,0 +1,116 @@
+import { keccak256, toHex } from "viem";
+import { Direction, getTile, PackedBoard } from "./engine";
+
+export type Tile = {
+    id: string;
+    value: number;
+    row: number;
+    col: number;
+    mergedFrom?: string[];
+    isNew?: boolean;
+};
+
+// Generate a unique ID for tiles
+export function generateTileId() {
+    return keccak256(toHex(Math.random().toString()));
+}
+
+// Builds fresh tiles for every occupied cell of a packed board.
+export function tilesFromBoard(board: PackedBoard, isNew = true): Tile[] {
+    const tiles: Tile[] = [];
+    for (let pos = 0; pos < 16; pos++) {
+        const value = getTile(board, pos);
+        if (value > 0) {
+            tiles.push({
+                id: generateTileId(),
+                value: 2 ** value,
+                row: Math.floor(pos / 4),
+                col: pos % 4,
+                isNew,
+            });
+        }
+    }
+    return tiles;
+}
+
+// Returns the cells of a line ordered from the side tiles move towards.
+function lineCells(line: number, direction: Direction): [number, number][] {
+    const cells: [number, number][] = [0, 1, 2, 3].map((i) =>
+        direction === Direction.UP || direction === Direction.DOWN
+            ? [i, line]
+            : [line, i]
+    );
+    return direction === Direction.DOWN || direction === Direction.RIGHT
+        ? cells.reverse()
+        : cells;
+}
+
+/**
+ * Moves the tiles of the previous board so that they can be animated into
+ * the cells of `nextBoard`, the engine's result for `direction`. Moved tiles
+ * keep their id, merged tiles get a new one and the seeded tile is flagged
+ * as new.
+ */
+export function moveTiles(
+    tiles: Tile[],
+    direction: Direction,
+    nextBoard: PackedBoard
+): Tile[] {
+    const grid: (Tile | null)[][] = Array.from({ length: 4 }, () =>
+        Array(4).fill(null)
+    );
+    tiles.forEach((tile) => {
+        grid[tile.row][tile.col] = tile;
+    });
+
+    const moved: Tile[] = [];
+    const occupied = new Set<number>();
+
+    for (let line = 0; line < 4; line++) {
+        const cells = lineCells(line, direction);
+
+        let front: Tile | null = null;
+        let target = 0;
+        for (const [row, col] of cells) {
+            const tile = grid[row][col];
+            if (!tile) continue;
+
+            if (front && !front.mergedFrom && front.value === tile.value) {
+                // Merge with the tile in front
+                const mergedTile: Tile = {
+                    id: generateTileId(),
+                    value: tile.value * 2,
+                    row: front.row,
+                    col: front.col,
+                    mergedFrom: [tile.id, front.id],
+                };
+                moved[moved.length - 1] = mergedTile;
+                front = mergedTile;
+            } else {
+                // Move to the next free cell of the line
+                const [newRow, newCol] = cells[target++];
+                front = { ...tile, row: newRow, col: newCol };
+                delete front.mergedFrom;
+                delete front.isNew;
+                moved.push(front);
+                occupied.add(newRow * 4 + newCol);
+            }
+        }
+    }
+
+    // Add the tile placed by the move's seed
+    for (let pos = 0; pos < 16; pos++) {
+        const value = getTile(nextBoard, pos);
+        if (value > 0 && !occupied.has(pos)) {
+            moved.push({
+                id: generateTileId(),
+                value: 2 ** value,
+                row: Math.floor(pos / 4),
+                col: pos % 4,
+                isNew: true,
+            });
+        }
+    }
+
+    return moved;
+}
@@ -0,0 +1,129 @@
+import { Hex } from "viem";
+
+// A signed game transaction that has not been mined yet.
+export type QueuedTransaction = {
+    player: Hex;
+    nonce: number;
+    gameId: Hex;
+    moveNumber: number; // the last move the transaction submits
+    move: number;
+    board: bigint;
+    data: Hex;
+    gas: bigint;
+    maxFeePerGas: bigint;
+    maxPriorityFeePerGas: bigint;
+    signedTransaction: Hex;
+    hash: Hex;
+    previousHashes: Hex[]; // hashes replaced by re-signing, any may be mined
+    broadcasts: number;
+    createdAt: number;
+};
+
+// IndexedDB holds bigints natively, so records are stored as they are.
+const DATABASE_NAME = "mega2048";
+const DATABASE_VERSION = 1;
+const TRANSACTIONS_STORE = "transactions";
+const NONCES_STORE = "nonces";
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!database) {
+        database = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                db.createObjectStore(TRANSACTIONS_STORE, {
+                    keyPath: ["player", "nonce"],
+                });
+                db.createObjectStore(NONCES_STORE, { keyPath: "player" });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                database = null;
+                reject(request.error);
+            };
+        });
+    }
+    return database;
+}
+
+// Runs `operation` in a single IndexedDB transaction and resolves once it
+// has committed. Read-write transactions on a store run one at a time, even
+// across tabs.
+async function withStore<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore, done: (value: T) => void) => void
+): Promise<T> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        let result: T;
+        transaction.oncomplete = () => resolve(result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+        operation(transaction.objectStore(storeName), (value) => {
+            result = value;
+        });
+    });
+}
+
+function normalize(player: Hex): Hex {
+    return player.toLowerCase() as Hex;
+}
+
+// =============================================================//
+//                         TRANSACTIONS                         //
+// =============================================================//
+
+export function saveQueuedTransaction(transaction: QueuedTransaction) {
+    return withStore<void>(TRANSACTIONS_STORE, "readwrite", (store) => {
+        store.put({ ...transaction, player: normalize(transaction.player) });
+    });
+}
+
+export function deleteQueuedTransaction(player: Hex, nonce: number) {
+    return withStore<void>(TRANSACTIONS_STORE, "readwrite", (store) => {
+        store.delete([normalize(player), nonce]);
+    });
+}
+
+// Returns a player's queued transactions ordered by nonce.
+export function loadQueuedTransactions(
+    player: Hex
+): Promise<QueuedTransaction[]> {
+    const range = IDBKeyRange.bound(
+        [normalize(player), 0],
+        [normalize(player), Infinity]
+    );
+    return withStore(TRANSACTIONS_STORE, "readonly", (store, done) => {
+        const request = store.getAll(range);
+        request.onsuccess = () => done(request.result);
+    });
+}
+
+// =============================================================//
+//                            NONCES                            //
+// =============================================================//
+
+/**
+ * Hands out the player's next nonce. The read and the increment share one
+ * transaction, so two tabs can never be given the same nonce.
+ */
+export function reserveNonce(player: Hex): Promise<number> {
+    return withStore(NONCES_STORE, "readwrite", (store, done) => {
+        const request = store.get(normalize(player));
+        request.onsuccess = () => {
+            const nonce: number = request.result?.nextNonce ?? 0;
+            store.put({ player: normalize(player), nextNonce: nonce + 1 });
+            done(nonce);
+        };
+    });
+}
+
+export function setNextNonce(player: Hex, nextNonce: number) {
+    return withStore<void>(NONCES_STORE, "readwrite", (store) => {
+        store.put({ player: normalize(player), nextNonce });
+    });
+}
@@ -0,0 +1,65 @@
+import { Hex, TypedDataDefinition } from "viem";
+
+// EIP-712 payloads MEGAETH2048 accepts from any relayer, in
+// `startGameBySig` and `playBySig`. Shared by the frontend and the relayer
+// in contract-deployment/scripts/relayer.ts.
+
+export const GAME_TYPES = {
+    StartGame: [
+        { name: "gameId", type: "bytes32" },
+        { name: "boards", type: "uint128[4]" },
+        { name: "moves", type: "uint8[3]" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+    ],
+    Play: [
+        { name: "gameId", type: "bytes32" },
+        { name: "moves", type: "uint8[]" },
+        { name: "resultBoards", type: "uint128[]" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+    ],
+} as const;
+
+export type GameTypedData = TypedDataDefinition<
+    typeof GAME_TYPES,
+    "StartGame" | "Play"
+>;
+
+export function gameDomain(chainId: number, verifyingContract: Hex) {
+    return {
+        name: "MEGAETH2048",
+        version: "1",
+        chainId,
+        verifyingContract,
+    } as const;
+}
+
+// A signed payload as sent to the relayer. JSON cannot hold bigints, so
+// boards, nonces and deadlines are decimal strings.
+export type RelayRequest =
+    | {
+          kind: "startGame";
+          gameId: Hex;
+          boards: string[];
+          moves: number[];
+          nonce: string;
+          deadline: string;
+          signature: Hex;
+      }
+    | {
+          kind: "play";
+          gameId: Hex;
+          moves: number[];
+          resultBoards: string[];
+          nonce: string;
+          deadline: string;
+          signature: Hex;
+      };
+
+// What the relayer knows of a player: the nonce their next payload must
+// carry, counting payloads it has yet to land, and their remaining quota.
+export type RelayerPlayer = {
+    nonce: string;
+    quotaLeft: number;
+};
@@ -0,0 +1,17 @@
+import { findBestMove, HintRequest, HintResponse } from "@/utils/search";
+
+// Runs the hint search off the main thread so that animations and input
+// handling never block on it.
+self.onmessage = (event: MessageEvent<HintRequest>) => {
+    const { id, board, exact } = event.data;
+
+    let move: HintResponse["move"] = null;
+    try {
+        move = findBestMove(board, exact);
+    } catch (error) {
+        console.error("Error searching hint:", error);
+    }
+
+    const response: HintResponse = { id, move };
+    postMessage(response);
+};
@@ -1,10 +1,38 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv, ProxyOptions } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import tailwindcss from "@tailwindcss/vite";
+import { allRpcUrls, proxyPath } from "./src/utils/networks";
+
+// Proxies proxyPath(url) to every https RPC endpoint a network may use
+function rpcProxies(env: Record<string, string>) {
+    const proxies: Record<string, ProxyOptions> = {};
+    for (const url of allRpcUrls(env).filter((url) => url.startsWith('https:'))) {
+        const { origin, pathname, search } = new URL(url);
+        proxies[`^${proxyPath(url)}$`] = {
+            target: origin,
+            changeOrigin: true,
+            rewrite: (_path) => pathname + search,  // Point to the endpoint's path
+            configure: (proxy, _options) => {
+                proxy.on('error', (err, _req, _res) => {
+                    console.log('proxy error', err);
+                });
+                proxy.on('proxyReq', (proxyReq, req, _res) => {
+                    console.log('Sending Request to the Target:', origin, req.method, req.url);
+                    // Add CORS headers to the proxy request
+                    proxyReq.setHeader('origin', origin);
+                });
+                proxy.on('proxyRes', (proxyRes, req, _res) => {
+                    console.log('Received Response from the Target:', origin, proxyRes.statusCode, req.url);
+                });
+            },
+        };
+    }
+    return proxies;
+}
 
 // https://vite.dev/config/
-export default defineConfig({
+export default defineConfig(({ mode }) => ({
     plugins: [react(), tailwindcss()],
     resolve: {
         alias: {
@@ -12,28 +40,7 @@ export default defineConfig({
         },
     },
     server: {
-        proxy: {
-            // Proxy all requests to /megaeth-rpc to the MEGAETH RPC endpoint
-            '/megaeth-rpc': {
-                target: 'https://carrot.megaeth.com',
-                changeOrigin: true,
-                rewrite: (path) => '/rpc',  // Point to the /rpc endpoint
-                configure: (proxy, _options) => {
-                    proxy.on('error', (err, _req, _res) => {
-                        console.log('proxy error', err);
-                    });
-                    proxy.on('proxyReq', (proxyReq, req, _res) => {
-                        console.log('Sending Request to the Target:', req.method, req.url);
-                        // Add CORS headers to the proxy request
-                        proxyReq.setHeader('origin', 'https://carrot.megaeth.com');
-                    });
-                    proxy.on('proxyRes', (proxyRes, req, _res) => {
-                        console.log('Received Response from the Target:', proxyRes.statusCode, req.url);
-                    });
-                },
-                // Properly handle CORS
-                cors: true,
-            },
-        }
+        // Proxy every MEGAETH RPC endpoint, as some reject cross-origin requests
+        proxy: rpcProxies(loadEnv(mode, process.cwd(), "VITE_")),
     }
-});
+}));